@@ -0,0 +1,54 @@
+/**
+ * Test fixture: a ChainSignaturesSimulator signing with a fixed local secp256k1 key
+ *
+ * Every derivation returns DERIVED_KEY and the MPC service signs the chain adapter's
+ * payload hash locally, so signing flows can be checked end to end without a NEAR
+ * node or MPC network. Not part of the build (see tsconfig).
+ */
+
+import { SigningKey, computeAddress } from 'ethers';
+import { ChainSignaturesSimulator } from '../chain-signatures/simulator';
+import { encodeBase58 } from '../chain-signatures/address-encoding';
+import { getChainAdapter } from '../chain-signatures/chain-registry';
+import { Signature, SignatureRequest } from '../types';
+
+export const signingKey = new SigningKey('0x' + '42'.repeat(32));
+
+/** signingKey's public key in contract format, as `derived_public_key` would return it */
+export const DERIVED_KEY = 'secp256k1:' + encodeBase58(Buffer.from(signingKey.publicKey.slice(4), 'hex'));
+
+/** EVM address of signingKey */
+export const SENDER = computeAddress(signingKey.publicKey);
+
+/**
+ * Simulator whose derivations return DERIVED_KEY and whose MPC service signs with signingKey
+ */
+export class LocalSignerSimulator extends ChainSignaturesSimulator {
+  /** Spy on the MPC service's generateSignature (one call per MPC signature) */
+  readonly generateSignature: jest.SpyInstance<Promise<Signature>, [SignatureRequest]>;
+
+  constructor() {
+    super({
+      rpcUrl: 'http://localhost:3030',
+      networkId: 'localnet',
+      mpcContractId: 'v1.signer.localnet',
+    });
+    this.generateSignature = jest.spyOn(this.mpc, 'generateSignature').mockImplementation(async (request) => {
+      const sig = signingKey.sign(getChainAdapter(request.chain).hashPayload(request.payload));
+      return {
+        scheme: 'secp256k1',
+        big_r: (sig.yParity ? '03' : '02') + sig.r.slice(2),
+        s: sig.s.slice(2),
+        recovery_id: sig.yParity,
+      };
+    });
+  }
+
+  protected async derivePublicKey(): Promise<string> {
+    return DERIVED_KEY;
+  }
+}
+
+export function createLocalSignerSimulator(): LocalSignerSimulator {
+  return new LocalSignerSimulator();
+}
@@ -0,0 +1,118 @@
+/**
+ * Address encoding unit tests
+ *
+ * Pure functions only - no NEAR RPC or MPC nodes required.
+ * Vectors use the secp256k1 generator point (private key = 1).
+ */
+
+import {
+  parsePublicKey,
+  compressSecp256k1PublicKey,
+  hash160,
+  encodeBase58,
+  decodeBase58,
+  encodeSegwitAddress,
+  encodeBase58Check,
+  taprootTweakPublicKey,
+  encodeCashAddr,
+  BASE58_RIPPLE_ALPHABET,
+} from '../chain-signatures/address-encoding';
+
+const COMPRESSED_G = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const UNCOMPRESSED_G_XY =
+  '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+  '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+
+describe('Address Encoding', () => {
+  describe('Public key parsing', () => {
+    it('should decode NEAR secp256k1:<base58> keys to 64 raw bytes', () => {
+      const nearKey = 'secp256k1:' + encodeBase58(Buffer.from(UNCOMPRESSED_G_XY, 'hex'));
+      const bytes = parsePublicKey(nearKey);
+
+      expect(Buffer.from(bytes).toString('hex')).toBe(UNCOMPRESSED_G_XY);
+    });
+
+    it('should compress 64-byte, 65-byte and 33-byte keys identically', () => {
+      const expected = COMPRESSED_G;
+
+      expect(Buffer.from(compressSecp256k1PublicKey(UNCOMPRESSED_G_XY)).toString('hex')).toBe(expected);
+      expect(Buffer.from(compressSecp256k1PublicKey('04' + UNCOMPRESSED_G_XY)).toString('hex')).toBe(expected);
+      expect(Buffer.from(compressSecp256k1PublicKey(COMPRESSED_G)).toString('hex')).toBe(expected);
+    });
+  });
+
+  describe('Base58', () => {
+    it('should preserve leading zero bytes', () => {
+      const bytes = new Uint8Array([0, 0, 1, 2, 3]);
+      const encoded = encodeBase58(bytes);
+
+      expect(encoded.startsWith('11')).toBe(true);
+      expect(Array.from(decodeBase58(encoded))).toEqual(Array.from(bytes));
+    });
+  });
+
+  describe('Bitcoin P2WPKH', () => {
+    it('should match the BIP-173 test vector', () => {
+      const program = hash160(compressSecp256k1PublicKey(COMPRESSED_G));
+
+      expect(Buffer.from(program).toString('hex')).toBe('751e76e8199196d454941c45d1b3a323f1433bd6');
+      expect(encodeSegwitAddress('bc', 0, program)).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+    });
+  });
+
+  describe('Base58Check P2PKH', () => {
+    const program = hash160(compressSecp256k1PublicKey(COMPRESSED_G));
+
+    it('should encode the bitcoin P2PKH address for version 0x00', () => {
+      expect(encodeBase58Check(0x00, program)).toBe('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+    });
+
+    it('should encode dogecoin P2PKH addresses starting with D for version 0x1e', () => {
+      const address = encodeBase58Check(0x1e, program);
+
+      expect(address).toMatch(/^D[1-9A-HJ-NP-Za-km-z]{33}$/);
+    });
+  });
+
+  describe('XRPL addresses', () => {
+    it('should encode the classic address of the genesis account', () => {
+      const accountId = hash160(
+        compressSecp256k1PublicKey('0330E7FC9D56BB25D6893BA3F317AE5BCF33B3291BD63DB32654A313222F7FD020')
+      );
+
+      expect(encodeBase58Check(0x00, accountId, BASE58_RIPPLE_ALPHABET)).toBe('rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh');
+    });
+
+    it('should encode a mainnet X-address without tag', () => {
+      const accountId = decodeBase58('r9cZA1mLK5R5Am25ArfXFmqgNwjZgnfk59', BASE58_RIPPLE_ALPHABET).slice(1, 21);
+      const payload = new Uint8Array(29);
+      payload.set(accountId);
+
+      expect(encodeBase58Check(new Uint8Array([0x05, 0x44]), payload, BASE58_RIPPLE_ALPHABET)).toBe(
+        'X7AcgcsBL6XDcUb289X4mJ8djcdyKaB5hJDWMArnXr61cqZ'
+      );
+    });
+  });
+
+  describe('Bitcoin P2TR', () => {
+    it('should match the BIP-86 test vector', () => {
+      const internalKey = '02cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115';
+      const outputKey = taprootTweakPublicKey(internalKey);
+
+      expect(Buffer.from(outputKey).toString('hex')).toBe(
+        'a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c'
+      );
+      expect(encodeSegwitAddress('bc', 1, outputKey)).toBe(
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+      );
+    });
+  });
+
+  describe('CashAddr', () => {
+    it('should match the CashAddr spec test vector', () => {
+      const hash = Buffer.from('F5BF48B397DAE70BE82B3CCA4793F8EB2B6CDAC9', 'hex');
+
+      expect(encodeCashAddr('bitcoincash', 0, hash)).toBe('bitcoincash:qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2');
+    });
+  });
+});
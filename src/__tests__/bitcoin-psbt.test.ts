@@ -0,0 +1,242 @@
+/**
+ * Bitcoin PSBT signing unit tests
+ *
+ * Sighashes are checked against the BIP143 native P2WPKH example and the BIP341
+ * wallet test vectors (keyPathSpending); PSBT signing stubs the MPC service with a
+ * local key and signs Taproot inputs with a local Schnorr signer.
+ */
+
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import {
+  parseTransaction,
+  serializeTransaction,
+  computeTxId,
+  computeBip143Sighash,
+  computeBip341Sighash,
+  taprootKeyPathWitness,
+  BitcoinTransaction,
+} from '../chain-signatures/bitcoin-psbt';
+import {
+  compressSecp256k1PublicKey,
+  hash160,
+  taggedHash,
+  taprootTweakPublicKey,
+} from '../chain-signatures/address-encoding';
+import { toBitcoinScriptPubKey } from '../chain-signatures/chains/bitcoin';
+import {
+  createLocalSignerSimulator as createSimulator,
+  signingKey,
+  DERIVED_KEY,
+} from '../__fixtures__/local-signer-simulator';
+
+// BIP86 key-path private key: negate for odd Y, then add TapTweak(x(P))
+function tweakPrivateKey(privateKey: bigint): Uint8Array {
+  const n = secp256k1.CURVE.n;
+  const point = secp256k1.ProjectivePoint.BASE.multiply(privateKey);
+  const even = point.hasEvenY() ? privateKey : n - privateKey;
+  const tweak = BigInt('0x' + Buffer.from(taggedHash('TapTweak', point.toRawBytes(true).slice(1))).toString('hex'));
+  return Buffer.from(((even + tweak) % n).toString(16).padStart(64, '0'), 'hex');
+}
+
+// Minimal BIP-174 encoder: global unsigned tx, one WITNESS_UTXO per input, empty output maps
+function buildPsbt(
+  tx: BitcoinTransaction,
+  prevouts: Array<{ script: string; value: bigint; sighashType?: number }>
+): string {
+  const kv = (key: number[], value: Uint8Array) =>
+    Buffer.concat([Buffer.from([key.length, ...key]), varInt(value.length), value]);
+  const varInt = (n: number) => (n < 0xfd ? Buffer.from([n]) : Buffer.from([0xfd, n & 0xff, n >> 8]));
+
+  const parts: Buffer[] = [Buffer.from('70736274ff', 'hex'), kv([0x00], serializeTransaction(tx)), Buffer.from([0])];
+  for (const prevout of prevouts) {
+    const amount = Buffer.alloc(8);
+    amount.writeBigUInt64LE(prevout.value);
+    const script = Buffer.from(prevout.script, 'hex');
+    parts.push(kv([0x01], Buffer.concat([amount, Buffer.from([script.length]), script])));
+    if (prevout.sighashType !== undefined) {
+      const sighashType = Buffer.alloc(4);
+      sighashType.writeUInt32LE(prevout.sighashType);
+      parts.push(kv([0x03], sighashType));
+    }
+    parts.push(Buffer.from([0]));
+  }
+  for (let i = 0; i < tx.outputs.length; i++) {
+    parts.push(Buffer.from([0]));
+  }
+  return Buffer.concat(parts).toString('base64');
+}
+
+function spendTx(inputCount: number): BitcoinTransaction {
+  return {
+    version: 2,
+    inputs: Array.from({ length: inputCount }, (_, i) => ({
+      prevTxId: new Uint8Array(32).fill(0x10 + i),
+      vout: i,
+      scriptSig: new Uint8Array(0),
+      sequence: 0xfffffffd,
+    })),
+    outputs: [{ value: BigInt(90000), script: Buffer.from('0014' + '00'.repeat(20), 'hex') }],
+    locktime: 0,
+  };
+}
+
+describe('Bitcoin PSBT', () => {
+  it('should compute the BIP143 native P2WPKH example sighash', () => {
+    const tx = parseTransaction(Buffer.from(
+      '0100000002fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f0000000000eeffffff' +
+        'ef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206' +
+        '000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42db' +
+        'ee7e4dbe6a21b2d50ce2f0167faa815988ac11000000',
+      'hex'
+    ));
+    const scriptCode = Buffer.from('76a9141d0f172a0ecb48aee1be1f2687d2963ae33f71a188ac', 'hex');
+
+    expect(Buffer.from(computeBip143Sighash(tx, 1, scriptCode, BigInt(600000000), 1)).toString('hex')).toBe(
+      'c37af31116d1b27caf68aae9e3ac82f1477929014d5b917657d0eb49478cb670'
+    );
+  });
+
+  // BIP341 wallet test vectors, keyPathSpending[0] (bips/bip-0341/wallet-test-vectors.json)
+  it('should compute the BIP341 key-path sighash test vectors', () => {
+    const tx = parseTransaction(Buffer.from(
+      '02000000097de20cbff686da83a54981d2b9bab3586f4ca7e48f57f5b55963115f3b334e9c010000000000000000d7b7cab57b1393ac' +
+        'e2d064f4d4a2cb8af6def61273e127517d44759b6dafdd990000000000fffffffff8e1f583384333689228c5d28eac13366be082dc57' +
+        '441760d957275419a418420000000000fffffffff0689180aa63b30cb162a73c6d2a38b7eeda2a83ece74310fda0843ad604853b0100' +
+        '000000feffffffaa5202bdf6d8ccd2ee0f0202afbbb7461d9264a25e5bfd3c5a52ee1239e0ba6c0000000000feffffff956149bdc66f' +
+        'aa968eb2be2d2faa29718acbfe3941215893a2a3446d32acd050000000000000000000e664b9773b88c09c32cb70a2a3e4da0ced63b7' +
+        'ba3b22f848531bbb1d5d5f4c94010000000000000000e9aa6b8e6c9de67619e6a3924ae25696bb7b694bb677a632a74ef7eadfd4eabf' +
+        '0000000000ffffffffa778eb6a263dc090464cd125c466b5a99667720b1c110468831d058aa1b82af10100000000ffffffff0200ca9a' +
+        '3b000000001976a91406afd46bcdfd22ef94ac122aa11f241244a37ecc88ac807840cb0000000020ac9a87f5594be208f8532db38cff' +
+        '670c450ed2fea8fcdefcc9a663f78bab962b0065cd1d',
+      'hex'
+    ));
+    const prevouts = [
+      ['512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343', 420000000],
+      ['5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3', 462000000],
+      ['76a914751e76e8199196d454941c45d1b3a323f1433bd688ac', 294000000],
+      ['5120e4d810fd50586274face62b8a807eb9719cef49c04177cc6b76a9a4251d5450e', 504000000],
+      ['512091b64d5324723a985170e4dc5a0f84c041804f2cd12660fa5dec09fc21783605', 630000000],
+      ['00147dd65592d0ab2fe0d0257d571abf032cd9db93dc', 378000000],
+      ['512075169f4001aa68f15bbed28b218df1d0a62cbbcf1188c6665110c293c907b831', 672000000],
+      ['5120712447206d7a5238acc7ff53fbe94a3b64539ad291c7cdbc490b7577e4b17df5', 546000000],
+      ['512077e30a5522dd9f894c3f8b8bd4c4b2cf82ca7da8a3ea6a239655c39c050ab220', 588000000],
+    ].map(([script, value]) => ({ script: Buffer.from(script as string, 'hex'), value: BigInt(value) }));
+
+    const vectors: Array<[number, number, string]> = [
+      [0, 0x03, '2514a6272f85cfa0f45eb907fcb0d121b808ed37c6ea160a5a9046ed5526d555'],
+      [1, 0x83, '325a644af47e8a5a2591cda0ab0723978537318f10e6a63d4eed783b96a71a4d'],
+      [3, 0x01, 'bf013ea93474aa67815b1b6cc441d23b64fa310911d991e713cd34c7f5d46669'],
+      [4, 0x00, '4f900a0bae3f1446fd48490c2958b5a023228f01661cda3496a11da502a7f7ef'],
+      [6, 0x02, '15f25c298eb5cdc7eb1d638dd2d45c97c4c59dcaec6679cfc16ad84f30876b85'],
+      [7, 0x82, 'cd292de50313804dabe4685e83f923d2969577191a3e1d2882220dca88cbeb10'],
+      [8, 0x81, 'cccb739eca6c13a8a89e6e5cd317ffe55669bbda23f2fd37b0f18755e008edd2'],
+    ];
+    for (const [inputIndex, hashType, sigHash] of vectors) {
+      expect(Buffer.from(computeBip341Sighash(tx, inputIndex, prevouts, hashType)).toString('hex')).toBe(sigHash);
+    }
+
+    // Input 0 has no script tree: BIP86 output key, and the vector's witness with zero aux randomness
+    const internalPrivkey = BigInt('0x6b973d88838f27366ed61c9ad6367663045cb456e28335c109e30717ae0c6baa');
+    const internalKey = secp256k1.getPublicKey(internalPrivkey, true);
+    expect(Buffer.from(taprootTweakPublicKey(internalKey)).toString('hex')).toBe(
+      '53a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343'
+    );
+    const signature = schnorr.sign(vectors[0][2], tweakPrivateKey(internalPrivkey), new Uint8Array(32));
+    expect(taprootKeyPathWitness(signature, 0x03).map((item) => Buffer.from(item).toString('hex'))).toEqual([
+      'ed7c1647cb97379e76892be0cacff57ec4a7102aa24296ca39af7541246d8ff14d38958d4cc1e2e478e4d4a764bbfd835b16d4e314b72937b29833060b87276c03',
+    ]);
+  });
+
+  it('should sign each P2WPKH input and finalize the transaction', async () => {
+    const simulator = createSimulator();
+    const tx = spendTx(2);
+    const script = toBitcoinScriptPubKey(DERIVED_KEY, 'p2wpkh');
+    const psbt = buildPsbt(tx, [{ script, value: BigInt(50000) }, { script, value: BigInt(60000) }]);
+
+    const signed = await simulator.signBitcoinPsbt('alice.near', psbt);
+
+    const compressed = compressSecp256k1PublicKey(DERIVED_KEY);
+    const scriptCode = Buffer.concat([Buffer.from('76a914', 'hex'), hash160(compressed), Buffer.from('88ac', 'hex')]);
+    expect(signed.inputs.map((input) => input.sighash)).toEqual([
+      Buffer.from(computeBip143Sighash(tx, 0, scriptCode, BigInt(50000), 1)).toString('hex'),
+      Buffer.from(computeBip143Sighash(tx, 1, scriptCode, BigInt(60000), 1)).toString('hex'),
+    ]);
+    expect(signed.txid).toBe(computeTxId(tx));
+    expect(signed.rawTransaction.slice(8, 12)).toBe('0001');
+    expect(signed.rawTransaction).toContain(Buffer.from(compressed).toString('hex'));
+    expect(computeTxId(parseTransaction(Buffer.from(signed.rawTransaction, 'hex')))).toBe(signed.txid);
+    expect(simulator.generateSignature).toHaveBeenCalledTimes(2);
+  });
+
+  it('should sign Taproot key-path inputs with the external Schnorr signer', async () => {
+    const simulator = createSimulator();
+    const tx = spendTx(2);
+    const prevouts = [
+      { script: toBitcoinScriptPubKey(DERIVED_KEY, 'p2tr'), value: BigInt(50000) },
+      { script: toBitcoinScriptPubKey(DERIVED_KEY, 'p2wpkh'), value: BigInt(60000) },
+    ];
+    const tweakedKey = tweakPrivateKey(BigInt(signingKey.privateKey));
+    const taprootSigner = jest.fn(async ({ sighash }: { sighash: Uint8Array }) => schnorr.sign(sighash, tweakedKey));
+
+    const signed = await simulator.signBitcoinPsbt('alice.near', buildPsbt(tx, prevouts), { taprootSigner });
+
+    const spent = prevouts.map(({ script, value }) => ({ script: Buffer.from(script, 'hex'), value }));
+    const taprootSighash = Buffer.from(computeBip341Sighash(tx, 0, spent)).toString('hex');
+    expect(signed.inputs.map((input) => input.scriptType)).toEqual(['p2tr', 'p2wpkh']);
+    expect(signed.inputs[0].sighash).toBe(taprootSighash);
+    expect(taprootSigner).toHaveBeenCalledWith(expect.objectContaining({
+      index: 0,
+      sighashType: 0,
+      outputKey: taprootTweakPublicKey(DERIVED_KEY),
+    }));
+    // SIGHASH_DEFAULT: bare 64-byte signature as the only witness item
+    expect(signed.rawTransaction).toContain('0140' + signed.inputs[0].schnorrSignature);
+    expect(simulator.generateSignature).toHaveBeenCalledTimes(1);
+    expect(computeTxId(parseTransaction(Buffer.from(signed.rawTransaction, 'hex')))).toBe(signed.txid);
+  });
+
+  it('should reject Taproot inputs without a valid Schnorr signer, and foreign inputs', async () => {
+    const simulator = createSimulator();
+
+    const taproot = buildPsbt(spendTx(1), [{ script: toBitcoinScriptPubKey(DERIVED_KEY, 'p2tr'), value: BigInt(1000) }]);
+    await expect(simulator.signBitcoinPsbt('alice.near', taproot)).rejects.toThrow('options.taprootSigner');
+
+    // Signed with the untweaked key: does not verify under the output key
+    const untweaked = async ({ sighash }: { sighash: Uint8Array }) =>
+      schnorr.sign(sighash, Buffer.from(signingKey.privateKey.slice(2), 'hex'));
+    await expect(simulator.signBitcoinPsbt('alice.near', taproot, { taprootSigner: untweaked })).rejects.toThrow(
+      'Schnorr signature for PSBT input 0 is invalid'
+    );
+
+    const foreign = buildPsbt(spendTx(1), [{ script: '0014' + '11'.repeat(20), value: BigInt(1000) }]);
+    await expect(simulator.signBitcoinPsbt('alice.near', foreign)).rejects.toThrow(
+      'PSBT input 0 is not a P2WPKH or P2TR output of the derived key'
+    );
+  });
+
+  it('should reject sighash types that BIP143 / BIP341 do not define', async () => {
+    const simulator = createSimulator();
+    const p2wpkh = toBitcoinScriptPubKey(DERIVED_KEY, 'p2wpkh');
+    const p2tr = toBitcoinScriptPubKey(DERIVED_KEY, 'p2tr');
+    const taprootSigner = jest.fn();
+
+    // SIGHASH_DEFAULT only exists for Taproot
+    await expect(
+      simulator.signBitcoinPsbt('alice.near', buildPsbt(spendTx(1), [{ script: p2wpkh, value: BigInt(1000), sighashType: 0x00 }]))
+    ).rejects.toThrow('PSBT input 0 has unsupported sighash type 0x0');
+    for (const sighashType of [0x04, 0x80, 0x84, 0x101]) {
+      await expect(
+        simulator.signBitcoinPsbt('alice.near', buildPsbt(spendTx(1), [{ script: p2tr, value: BigInt(1000), sighashType }]), {
+          taprootSigner,
+        })
+      ).rejects.toThrow(`PSBT input 0 has unsupported sighash type 0x${sighashType.toString(16)}`);
+    }
+    expect(taprootSigner).not.toHaveBeenCalled();
+
+    const signed = await simulator.signBitcoinPsbt(
+      'alice.near',
+      buildPsbt(spendTx(1), [{ script: p2wpkh, value: BigInt(1000), sighashType: 0x83 }])
+    );
+    expect(signed.inputs[0].sighash).toHaveLength(64);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * MpcEthersSigner unit tests
+ *
+ * The simulator's NEAR client and MPC service are stubbed with a local key;
+ * results are checked with ethers' own recovery helpers.
+ */
+
+import { Transaction, verifyMessage, verifyTypedData } from 'ethers';
+import { MpcEthersSigner } from '../chain-signatures/ethers-signer';
+import { createLocalSignerSimulator, SENDER } from '../__fixtures__/local-signer-simulator';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+function createSigner(): MpcEthersSigner {
+  return new MpcEthersSigner(createLocalSignerSimulator(), 'alice.near', { network: 'regtest' });
+}
+
+describe('MpcEthersSigner', () => {
+  it('should use the derived address', async () => {
+    expect(await createSigner().getAddress()).toBe(SENDER);
+  });
+
+  it('should sign transactions that recover to the derived address', async () => {
+    const signer = createSigner();
+
+    const raw = await signer.signTransaction({
+      from: SENDER,
+      to: RECIPIENT,
+      nonce: 1,
+      gasLimit: 21000,
+      value: 1,
+      maxFeePerGas: BigInt(2e9),
+      maxPriorityFeePerGas: BigInt(1e9),
+    });
+
+    const parsed = Transaction.from(raw);
+    expect(parsed.from).toBe(SENDER);
+    expect(parsed.chainId).toBe(BigInt(31337));
+    expect(parsed.to).toBe(RECIPIENT);
+  });
+
+  it('should reject transactions from another address', async () => {
+    await expect(
+      createSigner().signTransaction({ from: RECIPIENT, to: RECIPIENT, nonce: 0, gasLimit: 21000, gasPrice: 1 })
+    ).rejects.toThrow('does not match MPC signer address');
+  });
+
+  it('should sign messages and typed data', async () => {
+    const signer = createSigner();
+    const domain = { name: 'Orders', version: '1', chainId: 31337 };
+    const types = { Order: [{ name: 'maker', type: 'address' }, { name: 'amount', type: 'uint256' }] };
+    const value = { maker: SENDER, amount: BigInt(5) };
+
+    expect(verifyMessage('hello', await signer.signMessage('hello'))).toBe(SENDER);
+    expect(verifyTypedData(domain, types, value, await signer.signTypedData(domain, types, value))).toBe(SENDER);
+  });
+
+  it('should keep the account when connecting a provider', async () => {
+    const connected = createSigner().connect(null);
+
+    expect(connected).toBeInstanceOf(MpcEthersSigner);
+    expect(await connected.getAddress()).toBe(SENDER);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * EVM transaction and message signing unit tests
+ *
+ * The NEAR client and MPC service are stubbed with a local key, so signed raw
+ * transactions and messages can be checked end to end with ethers.
+ */
+
+import { Transaction, verifyMessage, verifyTypedData } from 'ethers';
+import { createLocalSignerSimulator as createSimulator, SENDER } from '../__fixtures__/local-signer-simulator';
+
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+describe('EVM transaction signing', () => {
+  it('should sign an EIP-1559 transaction with the registry chainId', async () => {
+    const simulator = createSimulator();
+
+    const signed = await simulator.signEvmTransaction('alice.near', 'ethereum', {
+      to: RECIPIENT,
+      nonce: 0,
+      gasLimit: 21000,
+      value: BigInt(10) ** BigInt(15),
+      maxFeePerGas: BigInt(30e9),
+      maxPriorityFeePerGas: BigInt(1e9),
+    });
+
+    const parsed = Transaction.from(signed.rawTransaction);
+    expect(signed.type).toBe(2);
+    expect(signed.chainId).toBe(1);
+    expect(parsed.chainId).toBe(BigInt(1));
+    expect(parsed.from).toBe(SENDER);
+    expect(signed.from).toBe(SENDER);
+    expect(parsed.hash).toBe(signed.hash);
+  });
+
+  it('should sign a legacy EIP-155 transaction for the network chainId', async () => {
+    const simulator = createSimulator();
+
+    const signed = await simulator.signEvmTransaction(
+      'alice.near',
+      'polygon',
+      { to: RECIPIENT, nonce: 3, gasLimit: 21000, gasPrice: BigInt(50e9) },
+      { network: 'testnet' }
+    );
+
+    const parsed = Transaction.from(signed.rawTransaction);
+    expect(signed.type).toBe(0);
+    expect(parsed.chainId).toBe(BigInt(80002));
+    expect(parsed.from).toBe(SENDER);
+  });
+
+  it('should reject non-EVM chains and conflicting chainIds', async () => {
+    const simulator = createSimulator();
+    const tx = { to: RECIPIENT, nonce: 0, gasLimit: 21000, gasPrice: 1 };
+
+    await expect(simulator.signEvmTransaction('alice.near', 'bitcoin', tx)).rejects.toThrow(
+      'Chain bitcoin is not an EVM chain'
+    );
+    await expect(simulator.signEvmTransaction('alice.near', 'ethereum', { ...tx, chainId: 5 })).rejects.toThrow(
+      'chainId 5 does not match ethereum mainnet chainId 1'
+    );
+  });
+
+  describe('Messages', () => {
+    const domain = {
+      name: 'Permit Token',
+      version: '1',
+      chainId: 1,
+      verifyingContract: '0x000000000000000000000000000000000000bEEF',
+    };
+    const types = {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+      ],
+    };
+    const value = { owner: SENDER, spender: RECIPIENT, value: BigInt(1000) };
+
+    it('should sign EIP-191 messages that verifyMessage recovers to the derived address', async () => {
+      const simulator = createSimulator();
+
+      const signed = await simulator.signMessage('alice.near', 'Sign in to example.com');
+
+      expect(signed.address).toBe(SENDER);
+      expect(verifyMessage('Sign in to example.com', signed.signature)).toBe(SENDER);
+    });
+
+    it('should sign EIP-712 typed data that verifyTypedData recovers to the derived address', async () => {
+      const simulator = createSimulator();
+
+      const signed = await simulator.signTypedData('alice.near', domain, types, value);
+
+      expect(verifyTypedData(domain, types, value, signed.signature)).toBe(SENDER);
+    });
+
+    it('should ignore an EIP712Domain entry in types', async () => {
+      const simulator = createSimulator();
+      const withDomainType = {
+        ...types,
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+      };
+
+      const signed = await simulator.signTypedData('alice.near', domain, withDomainType, value);
+
+      expect(verifyTypedData(domain, types, value, signed.signature)).toBe(SENDER);
+    });
+
+    it('should reject non-EVM chains', async () => {
+      const simulator = createSimulator();
+
+      await expect(simulator.signMessage('alice.near', 'hello', { chain: 'solana' })).rejects.toThrow(
+        'Chain solana is not an EVM chain'
+      );
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Fake MPC responder unit tests (stubbed provider and responder account)
+ */
+
+import { SigningKey, getBytes, keccak256, toUtf8Bytes } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { FakeMpcResponder } from '../localnet/fake-mpc-responder';
+import { InMemoryMPCService } from '../chain-signatures/in-memory';
+import { deriveEpsilon } from '../chain-signatures/key-derivation';
+import { decodeBase58 } from '../chain-signatures/address-encoding';
+
+const CONTRACT = 'v1.signer.localnet';
+const USER = 'alice.localnet';
+const SEED = 'fake-mpc-test';
+
+function signActions(request: unknown) {
+  return [
+    {
+      FunctionCall: {
+        method_name: 'sign',
+        args: Buffer.from(JSON.stringify({ request })).toString('base64'),
+        gas: 300_000_000_000_000,
+        deposit: '1',
+      },
+    },
+  ];
+}
+
+function signReceipt(receiptId: string, request: unknown, receiverId: string = CONTRACT) {
+  return {
+    receipt_id: receiptId,
+    predecessor_id: USER,
+    receiver_id: receiverId,
+    receipt: { Action: { signer_id: USER, actions: signActions(request) } },
+  };
+}
+
+function signTx(hash: string, request: unknown) {
+  return { hash, signer_id: USER, receiver_id: CONTRACT, actions: signActions(request) };
+}
+
+interface ChunkContents {
+  transactions?: unknown[];
+  receipts?: unknown[];
+}
+
+function createResponder(blocks: Record<number, ChunkContents>, finalHeight: number) {
+  const responder = new FakeMpcResponder({
+    rpcUrl: 'http://localhost:3030',
+    networkId: 'localnet',
+    mpcContractId: CONTRACT,
+    responderAccountId: 'mpc-node-0.localnet',
+    responderPrivateKey: 'ed25519:unused',
+    seed: SEED,
+  });
+
+  const provider = {
+    block: jest.fn(async (query: { finality?: string; blockId?: number }) => {
+      if (query.finality) {
+        return { header: { height: finalHeight }, chunks: [] };
+      }
+      const height = query.blockId as number;
+      if (!(height in blocks)) {
+        const error = new Error(`DB Not Found Error: BLOCK HEIGHT: ${height}`);
+        (error as any).type = 'UNKNOWN_BLOCK';
+        throw error;
+      }
+      return { header: { height }, chunks: [{ chunk_hash: `chunk-${height}`, height_included: height }] };
+    }),
+    chunk: jest.fn(async (chunkHash: string) => {
+      const { transactions = [], receipts = [] } = blocks[Number(chunkHash.split('-')[1])];
+      return { transactions, receipts };
+    }),
+  };
+  const functionCall = jest.fn(async () => ({}));
+  const viewFunction = jest.fn();
+
+  (responder as any).near = { connection: { provider } };
+  (responder as any).account = { functionCall, viewFunction };
+
+  return { responder, provider, functionCall, viewFunction };
+}
+
+describe('FakeMpcResponder', () => {
+  const mpc = new InMemoryMPCService(SEED);
+
+  it('responds to ECDSA sign requests with a signature of the derived key', async () => {
+    const digest = getBytes(keccak256(toUtf8Bytes('hello')));
+    const { responder, functionCall } = createResponder(
+      { 10: { receipts: [signReceipt('rc-1', { payload_v2: { Ecdsa: Buffer.from(digest).toString('hex') }, path: 'ethereum-1', domain_id: 0 })] } },
+      10
+    );
+
+    expect(await responder.pollOnce()).toBe(1);
+
+    const call = (functionCall.mock.calls[0] as any[])[0];
+    expect(call.methodName).toBe('respond');
+    expect(call.contractId).toBe(CONTRACT);
+    expect(call.args.request).toEqual({
+      tweak: Array.from(deriveEpsilon(USER, 'ethereum-1')),
+      payload: { Ecdsa: Buffer.from(digest).toString('hex') },
+      domain_id: 0,
+    });
+
+    const { big_r, s, recovery_id } = call.args.response.Secp256k1;
+    const recovered = SigningKey.recoverPublicKey(digest, {
+      r: '0x' + big_r.affine_point.slice(2),
+      s: '0x' + s.scalar,
+      v: 27 + recovery_id,
+    });
+    const derived = decodeBase58(mpc.derivePublicKey(USER, 'ethereum-1', 0).split(':')[1]);
+    expect(recovered.toLowerCase()).toBe('0x04' + Buffer.from(derived).toString('hex'));
+  });
+
+  it('responds to EdDSA sign requests and accepts the legacy payload array', async () => {
+    const message = Buffer.from('solana message');
+    const { responder, functionCall } = createResponder(
+      {
+        10: {
+          receipts: [
+            signReceipt('rc-ed', { payload_v2: { Eddsa: message.toString('hex') }, path: 'solana-1', domain_id: 1 }),
+            signReceipt('rc-legacy', { payload: Array.from(new Uint8Array(32).fill(7)), path: 'ethereum-1', key_version: 0 }),
+          ],
+        },
+      },
+      10
+    );
+
+    expect(await responder.pollOnce()).toBe(2);
+
+    const edCall = (functionCall.mock.calls[0] as any[])[0];
+    expect(edCall.args.request.payload).toEqual({ Eddsa: message.toString('hex') });
+    const derived = decodeBase58(mpc.derivePublicKey(USER, 'solana-1', 1).split(':')[1]);
+    expect(ed25519.verify(Uint8Array.from(edCall.args.response.Ed25519.signature), message, derived)).toBe(true);
+
+    const legacyCall = (functionCall.mock.calls[1] as any[])[0];
+    expect(legacyCall.args.request.payload).toEqual({ Ecdsa: '07'.repeat(32) });
+  });
+
+  it('skips missing heights, other receivers, malformed and already handled requests', async () => {
+    const request = { payload_v2: { Ecdsa: '11'.repeat(32) }, path: 'ethereum-1', domain_id: 0 };
+    const notHex = { ...request, payload_v2: { Ecdsa: 'zz'.repeat(32) } };
+    const blocks: Record<number, ChunkContents> = {
+      10: { receipts: [signReceipt('rc-1', request), signReceipt('rc-other', request, 'other.localnet')] },
+      12: { receipts: [signReceipt('rc-1', request), signReceipt('rc-not-hex', notHex)] },
+    };
+    const { responder, functionCall } = createResponder(blocks, 12);
+    (responder as any).lastHeight = 9;
+
+    expect(await responder.pollOnce()).toBe(1);
+    expect(await responder.pollOnce()).toBe(0);
+    expect(functionCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('responds once to a direct call seen as a transaction and then as its receipt', async () => {
+    const request = { payload_v2: { Ecdsa: '11'.repeat(32) }, path: 'ethereum-1', domain_id: 0 };
+    const { responder, functionCall } = createResponder(
+      {
+        10: { transactions: [signTx('tx-1', request)] },
+        11: { receipts: [signReceipt('rc-1', request)] },
+      },
+      11
+    );
+    (responder as any).lastHeight = 9;
+
+    expect(await responder.pollOnce()).toBe(1);
+    expect(functionCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps serving when respond fails', async () => {
+    const request = { payload_v2: { Ecdsa: '11'.repeat(32) }, path: 'ethereum-1', domain_id: 0 };
+    const { responder, functionCall } = createResponder(
+      { 10: { receipts: [signReceipt('rc-1', request), signReceipt('rc-2', request)] } },
+      10
+    );
+    functionCall.mockRejectedValueOnce(new Error('Signature request has timed out.'));
+
+    expect(await responder.pollOnce()).toBe(1);
+    expect(functionCall).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses to start when the contract has a different root key', async () => {
+    const { responder, viewFunction } = createResponder({}, 10);
+    viewFunction.mockResolvedValue(new InMemoryMPCService('other-seed').getRootPublicKey(0));
+
+    await expect(responder.start()).rejects.toThrow('Contract root key for domain 0');
+  });
+
+  it('starts when the contract root keys match the seed', async () => {
+    const { responder, viewFunction } = createResponder({}, 10);
+    viewFunction.mockImplementation(async ({ args }: { args: { domain_id: number } }) =>
+      responder.getRootPublicKey(args.domain_id)
+    );
+
+    await responder.start();
+    await responder.stop();
+    expect(viewFunction).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * In-memory MPC backend unit tests (no localnet required)
+ */
+
+import { verifyMessage, Transaction } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { InMemoryChainSignatures } from '../chain-signatures/in-memory';
+import { deriveChildPublicKey } from '../chain-signatures/key-derivation';
+import { parsePublicKey } from '../chain-signatures/address-encoding';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { createChainSignaturesClient } from '../factory';
+import { Ed25519Signature } from '../types';
+
+const digest = 'ab'.repeat(32);
+
+describe('InMemoryChainSignatures', () => {
+  const chainSigs = new InMemoryChainSignatures({ seed: 'unit-tests' });
+
+  it('should derive child keys with the contract epsilon scheme', async () => {
+    const evm = await chainSigs.deriveAddress('alice.near', 'ethereum', 'ethereum-1');
+    const sol = await chainSigs.deriveAddress('alice.near', 'solana', 'solana-1');
+
+    expect(evm.publicKey).toBe(
+      deriveChildPublicKey(chainSigs.getSeededRootPublicKey(DOMAIN_SECP256K1), 'alice.near', 'ethereum-1')
+    );
+    expect(sol.publicKey).toBe(
+      deriveChildPublicKey(chainSigs.getSeededRootPublicKey(DOMAIN_ED25519), 'alice.near', 'solana-1', DOMAIN_ED25519)
+    );
+  });
+
+  it('should be deterministic per seed', async () => {
+    const same = new InMemoryChainSignatures({ seed: 'unit-tests' });
+    const other = new InMemoryChainSignatures({ seed: 'other-suite' });
+    const address = (await chainSigs.deriveAddress('alice.near', 'bitcoin')).address;
+
+    expect((await same.deriveAddress('alice.near', 'bitcoin')).address).toBe(address);
+    expect((await other.deriveAddress('alice.near', 'bitcoin')).address).not.toBe(address);
+  });
+
+  it('should produce signatures that verify against the derived key', async () => {
+    for (const chain of ['ethereum', 'bitcoin', 'solana']) {
+      const payload = chain === 'solana' ? Buffer.from('solana message bytes, 32+ chars!!').toString('hex') : digest;
+      const response = await chainSigs.requestSignature({ nearAccount: 'alice.near', chain, payload });
+
+      expect(await chainSigs.verifySignature(response, payload)).toBe(true);
+      expect(response.cost).toBeUndefined();
+    }
+  });
+
+  it('should produce standard ed25519 signatures', async () => {
+    const message = Buffer.from('a raw solana transaction message.');
+    const response = await chainSigs.requestSignature({
+      nearAccount: 'alice.near',
+      chain: 'solana',
+      payload: message.toString('hex'),
+    });
+
+    const signature = Buffer.from((response.signature as Ed25519Signature).signature, 'hex');
+    expect(ed25519.verify(signature, message, parsePublicKey(response.publicKey))).toBe(true);
+  });
+
+  it('should sign for the derived EVM address', async () => {
+    const derived = await chainSigs.deriveAddress('bob.near', 'ethereum');
+
+    const signed = await chainSigs.signEvmTransaction('bob.near', 'ethereum', {
+      to: '0x000000000000000000000000000000000000dEaD',
+      nonce: 0,
+      gasLimit: 21000,
+      maxFeePerGas: 2_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+    });
+    const message = await chainSigs.signMessage('bob.near', 'hello');
+
+    expect(Transaction.from(signed.rawTransaction).from).toBe(derived.address);
+    expect(verifyMessage('hello', message.signature)).toBe(derived.address);
+  });
+
+  it('should be selected by createChainSignaturesClient', async () => {
+    const client = createChainSignaturesClient({ backend: 'in-memory', seed: 'unit-tests' });
+
+    expect(client).toBeInstanceOf(InMemoryChainSignatures);
+    expect((await client.deriveAddress('alice.near', 'ethereum')).address)
+      .toBe((await chainSigs.deriveAddress('alice.near', 'ethereum')).address);
+  });
+});
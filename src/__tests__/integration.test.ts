@@ -16,6 +16,7 @@
 import { ChainSignaturesSimulator } from '../chain-signatures/simulator';
 import { LocalnetConfig, getNearRpcUrl, getMpcContractId, getMpcNodes } from '../config';
 import { SupportedChain } from '../types';
+import { assertSecp256k1Signature } from '../chain-signatures/signature-format';
 
 describe('MPC Integration Tests', () => {
   let config: LocalnetConfig;
@@ -117,8 +118,10 @@ describe('MPC Integration Tests', () => {
       
       expect(response).toBeDefined();
       expect(response.signature).toBeDefined();
-      expect(response.signature.big_r).toBeDefined();
-      expect(response.signature.s).toBeDefined();
+      // ethereum derives through the secp256k1 domain; narrow the Signature union on scheme
+      const signature = assertSecp256k1Signature(response.signature);
+      expect(signature.big_r).toBeDefined();
+      expect(signature.s).toBeDefined();
       expect(response.publicKey).toBeDefined();
       expect(response.signedPayload).toBe(testPayload);
     });
@@ -0,0 +1,140 @@
+/**
+ * Offline epsilon key derivation unit tests
+ *
+ * child_pub = root_pub + epsilon*G must equal (root_priv + epsilon)*G,
+ * so each case derives the expected key from a known root private key.
+ * Known-answer cases use the v1.signer-prod.testnet root keys and the outputs of
+ * chainsig.js 1.1.16 (NEAR's client library) deriveChildPublicKey /
+ * deriveChildPublicKeyEd25519, an independent implementation of near/mpc's kdf.rs.
+ */
+
+import { SigningKey } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { deriveEpsilon, deriveChildPublicKey } from '../chain-signatures/key-derivation';
+import { encodeBase58 } from '../chain-signatures/address-encoding';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { SECP256K1_N } from '../chain-signatures/signature-format';
+import { ChainSignaturesSimulator } from '../chain-signatures/simulator';
+
+// `public_key` of v1.signer-prod.testnet for domains 0 and 1 (chainsig.js ROOT_PUBLIC_KEYS.TESTNET)
+const TESTNET_SECP_ROOT =
+  'secp256k1:4NfTiv3UsGahebgTaHyD9vF8KYKMBnfd6kh94mK6xv8fGBiJB8TBtFMP5WWXz6B89Ac1fbpzPwAvoyQebemHFwx3';
+const TESTNET_ED_ROOT = 'ed25519:6vSEtQxrQj6txUMh33WC4ERyCWmNMRTdufDWAaDY3Un2';
+
+const SECP_ROOT_PRIVATE = BigInt('0x' + '11'.repeat(32));
+const ED_ROOT_SCALAR = BigInt(123456789);
+
+function secpPublicKey(scalar: bigint): string {
+  const uncompressed = SigningKey.computePublicKey('0x' + scalar.toString(16).padStart(64, '0'), false);
+  return 'secp256k1:' + encodeBase58(Buffer.from(uncompressed.slice(4), 'hex'));
+}
+
+function edPublicKey(scalar: bigint): string {
+  return 'ed25519:' + encodeBase58(ed25519.ExtendedPoint.BASE.multiply(scalar).toRawBytes());
+}
+
+describe('Key derivation', () => {
+  it('should hash the versioned prefix, predecessor and path with SHA3-256', () => {
+    const epsilon = deriveEpsilon('alice.near', 'ethereum-1');
+
+    expect(epsilon).toHaveLength(32);
+    expect(Buffer.from(epsilon)).not.toEqual(Buffer.from(deriveEpsilon('bob.near', 'ethereum-1')));
+    expect(Buffer.from(epsilon)).not.toEqual(Buffer.from(deriveEpsilon('alice.near', 'ethereum-2')));
+  });
+
+  it('should match chainsig.js derivations from the v1.signer-prod.testnet root keys', () => {
+    expect(Buffer.from(deriveEpsilon('alice.testnet', 'ethereum-1')).toString('hex')).toBe(
+      '482da62ee42db2d6083294265c1f027684ce13938c2ed712f78d2e4640008fe3'
+    );
+
+    expect(deriveChildPublicKey(TESTNET_SECP_ROOT, 'alice.testnet', 'ethereum-1', DOMAIN_SECP256K1)).toBe(
+      'secp256k1:3hBMdabo82DyxjTr4LThx1MDpdx6GRaCaq6LgUPeeqQkpfywZ4xmKXf9ja68iSut7doEjTELYGbiCgJw5ms2HwFU'
+    );
+    expect(deriveChildPublicKey(TESTNET_SECP_ROOT, 'alice.testnet', 'bitcoin-1', DOMAIN_SECP256K1)).toBe(
+      'secp256k1:4Z33HD8XM97ywqHZEBrDDSFdrdPr2p3y1u4J7ZyVzudC4E1daSCVY5Bn9L7N1bF2edVdsJyHuNkqK2hEfoT4ph8n'
+    );
+    expect(deriveChildPublicKey(TESTNET_ED_ROOT, 'alice.testnet', 'solana-1', DOMAIN_ED25519)).toBe(
+      'ed25519:HD1hoD76CvCk77wS9jqfKvcq7VPWUZyY6tthx2axtgyN'
+    );
+  });
+
+  it('should derive secp256k1 child keys as root + epsilon*G', () => {
+    const epsilon = BigInt('0x' + Buffer.from(deriveEpsilon('alice.near', 'ethereum-1')).toString('hex'));
+    const expected = secpPublicKey((SECP_ROOT_PRIVATE + epsilon) % SECP256K1_N);
+
+    const child = deriveChildPublicKey(
+      secpPublicKey(SECP_ROOT_PRIVATE),
+      'alice.near',
+      'ethereum-1',
+      DOMAIN_SECP256K1
+    );
+
+    expect(child).toBe(expected);
+  });
+
+  it('should derive ed25519 child keys with a little-endian epsilon', () => {
+    const epsilonLE = Buffer.from(deriveEpsilon('alice.near', 'solana-1')).reverse().toString('hex');
+    const epsilon = BigInt('0x' + epsilonLE) % ed25519.CURVE.n;
+    const expected = edPublicKey((ED_ROOT_SCALAR + epsilon) % ed25519.CURVE.n);
+
+    const child = deriveChildPublicKey(edPublicKey(ED_ROOT_SCALAR), 'alice.near', 'solana-1', DOMAIN_ED25519);
+
+    expect(child).toBe(expected);
+  });
+
+  it('should reject unknown domains', () => {
+    expect(() => deriveChildPublicKey(secpPublicKey(SECP_ROOT_PRIVATE), 'alice.near', 'x', 7)).toThrow(
+      'Unsupported domain for offline derivation: 7'
+    );
+  });
+
+  describe('ChainSignaturesSimulator with localKeyDerivation', () => {
+    function createSimulator(crossCheckKeyDerivation: boolean, contractKey?: string) {
+      const simulator = new ChainSignaturesSimulator({
+        rpcUrl: 'http://localhost:3030',
+        networkId: 'localnet',
+        mpcContractId: 'v1.signer.localnet',
+        localKeyDerivation: true,
+        crossCheckKeyDerivation,
+      });
+      const nearClient = {
+        getRootPublicKey: jest.fn().mockResolvedValue(secpPublicKey(SECP_ROOT_PRIVATE)),
+        callDerivedPublicKey: jest.fn().mockResolvedValue(contractKey),
+      };
+      (simulator as any).nearClient = nearClient;
+      return { simulator, nearClient };
+    }
+
+    it('should fetch the root key once and derive addresses locally', async () => {
+      const { simulator, nearClient } = createSimulator(false);
+
+      const first = await simulator.deriveAddress('alice.near', 'ethereum', 'ethereum-1');
+      await simulator.deriveAddress('alice.near', 'ethereum', 'ethereum-2');
+      await simulator.deriveAddress('bob.near', 'bitcoin', 'bitcoin-1');
+
+      expect(nearClient.getRootPublicKey).toHaveBeenCalledTimes(1);
+      expect(nearClient.callDerivedPublicKey).not.toHaveBeenCalled();
+      expect(first.publicKey).toBe(
+        deriveChildPublicKey(secpPublicKey(SECP_ROOT_PRIVATE), 'alice.near', 'ethereum-1')
+      );
+    });
+
+    it('should throw when the cross-check disagrees with the contract', async () => {
+      const { simulator } = createSimulator(true, secpPublicKey(BigInt(1)));
+
+      await expect(simulator.deriveAddress('alice.near', 'ethereum', 'ethereum-1')).rejects.toThrow(
+        'Local key derivation mismatch'
+      );
+    });
+
+    it('should pass the cross-check when the contract agrees', async () => {
+      const expected = deriveChildPublicKey(secpPublicKey(SECP_ROOT_PRIVATE), 'alice.near', 'ethereum-1');
+      const { simulator, nearClient } = createSimulator(true, expected);
+
+      const result = await simulator.deriveAddress('alice.near', 'ethereum', 'ethereum-1');
+
+      expect(result.publicKey).toBe(expected);
+      expect(nearClient.callDerivedPublicKey).toHaveBeenCalledTimes(1);
+    });
+  });
+});
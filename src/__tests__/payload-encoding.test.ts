@@ -0,0 +1,95 @@
+/**
+ * Explicit payload encoding unit tests
+ */
+
+import { createHash } from 'crypto';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import { resolveSignPayload } from '../chain-signatures/payload-encoding';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { MPCService } from '../chain-signatures/mpc-service';
+import { hashPrehashedOrSha256, hashPrehashedOrKeccak256 } from '../chain-signatures/chains/common';
+
+const legacyRule = jest.fn(() => new Uint8Array(32));
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest();
+
+describe('Payload encoding', () => {
+  it('should use the chain adapter rule when no format is given', () => {
+    resolveSignPayload('abcd', {}, DOMAIN_SECP256K1, legacyRule);
+
+    expect(legacyRule).toHaveBeenCalledWith('abcd');
+  });
+
+  it('should reject non-hex and odd-length payloads in the default rules', () => {
+    for (const rule of [hashPrehashedOrSha256, hashPrehashedOrKeccak256]) {
+      expect(() => rule('hello world')).toThrow('Payload must be hex-encoded bytes');
+      expect(() => rule('abcdzz')).toThrow('Payload must be hex-encoded bytes');
+      expect(() => rule('0xabc')).toThrow('Payload must be hex-encoded bytes');
+    }
+
+    expect(hex(hashPrehashedOrSha256('0xabcd'))).toBe(sha256(Buffer.from('abcd', 'hex')).toString('hex'));
+  });
+
+  it('should hash UTF-8 text instead of hex-decoding it', () => {
+    const bytes = resolveSignPayload('héllo wörld', { encoding: 'utf8', hash: 'sha256' }, DOMAIN_SECP256K1, legacyRule);
+
+    expect(hex(bytes)).toBe(sha256(Buffer.from('héllo wörld', 'utf8')).toString('hex'));
+  });
+
+  it('should support keccak256, double-sha256 and base64', () => {
+    const keccak = resolveSignPayload('hello', { encoding: 'utf8', hash: 'keccak256' }, DOMAIN_SECP256K1, legacyRule);
+    const double = resolveSignPayload('aGVsbG8=', { encoding: 'base64', hash: 'double-sha256' }, DOMAIN_SECP256K1, legacyRule);
+
+    expect('0x' + hex(keccak)).toBe(keccak256(toUtf8Bytes('hello')));
+    expect(hex(double)).toBe(sha256(sha256(Buffer.from('hello'))).toString('hex'));
+  });
+
+  it('should pass prehashed digests through unchanged', () => {
+    const digest = 'ab'.repeat(32);
+
+    expect(hex(resolveSignPayload('0x' + digest, { encoding: 'prehashed-hex' }, DOMAIN_SECP256K1, legacyRule)))
+      .toBe(digest);
+  });
+
+  it('should sign raw ed25519 messages without hashing', () => {
+    const message = 'Solana message bytes, at least 32!';
+
+    expect(Buffer.from(resolveSignPayload(message, { encoding: 'utf8' }, DOMAIN_ED25519, legacyRule)).toString())
+      .toBe(message);
+  });
+
+  it('should reject invalid combinations and encodings', () => {
+    const resolve = (payload: string, format: object, domainId = DOMAIN_SECP256K1) =>
+      () => resolveSignPayload(payload, format, domainId, legacyRule);
+
+    expect(resolve('ab'.repeat(32), { encoding: 'prehashed-hex', hash: 'sha256' }))
+      .toThrow('prehashed-hex cannot be combined with hash sha256');
+    expect(resolve('abcd', { encoding: 'prehashed-hex' })).toThrow('requires 32 bytes, got 2');
+    expect(resolve('hello', { encoding: 'utf8' })).toThrow('requires an explicit hash for ECDSA chains');
+    expect(resolve('abcd', { encoding: 'hex', hash: 'none' })).toThrow('ECDSA payload must be a 32-byte digest');
+    expect(resolve('not hex!', { encoding: 'hex', hash: 'sha256' })).toThrow('Payload is not valid hex');
+    expect(resolve('***', { encoding: 'base64', hash: 'sha256' })).toThrow('Payload is not valid base64');
+    expect(resolve('ab'.repeat(40), { hash: 'sha256' }, DOMAIN_ED25519)).toThrow('not valid for ed25519 chains');
+    expect(resolve('abcd', { encoding: 'latin1' as any, hash: 'sha256' })).toThrow('Invalid payload encoding: latin1');
+  });
+
+  it('should send the explicitly encoded payload to the contract', async () => {
+    const mpc = new MPCService({
+      rpcUrl: 'http://localhost:3030',
+      networkId: 'localnet',
+      mpcContractId: 'v1.signer.localnet',
+    });
+    const callSign = jest.fn().mockResolvedValue({ big_r: '02' + '11'.repeat(32), s: '22'.repeat(32), recovery_id: 0 });
+    (mpc as any).nearClient = { callSign };
+
+    await mpc.generateSignature({
+      nearAccount: 'alice.near',
+      chain: 'bitcoin',
+      payload: 'plain text',
+      encoding: 'utf8',
+      hash: 'double-sha256',
+    });
+
+    expect(hex(callSign.mock.calls[0][0].payload)).toBe(sha256(sha256(Buffer.from('plain text'))).toString('hex'));
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * ProductionMPCClient tests
+ *
+ * The stand-in RPC server plays the testnet v1.signer contract; its root keys are
+ * passed as the expected keys, except where the preset keys are under test.
+ */
+
+import { KeyPair, KeyPairSigner } from 'near-api-js';
+import { StandInRpcServer } from '../localnet/stand-in-rpc-server';
+import { ProductionMPCClient, NEAR_NETWORK_PRESETS } from '../chain-signatures/production-client';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { createChainSignaturesClient } from '../factory';
+
+const CONTRACT = NEAR_NETWORK_PRESETS.testnet.mpcContractId;
+const SIGNER = 'alice.testnet';
+
+describe('ProductionMPCClient', () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  let server: StandInRpcServer;
+  let rpcUrl: string;
+
+  beforeEach(async () => {
+    server = new StandInRpcServer({ mpcContractId: CONTRACT });
+    server.addAccount(SIGNER, { publicKeys: [keyPair.getPublicKey().toString()] });
+    rpcUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should apply the network presets', () => {
+    const testnet = new ProductionMPCClient({ nearNetwork: 'testnet' });
+    const mainnet = new ProductionMPCClient({ nearNetwork: 'mainnet' });
+
+    expect(testnet.getNearNetworkPreset().mpcContractId).toBe('v1.signer-prod.testnet');
+    expect(mainnet.getNearNetworkPreset().mpcContractId).toBe('v1.signer');
+    expect(mainnet.getNearNetworkPreset().rpcUrl).toBe('https://rpc.mainnet.near.org');
+    expect(testnet.getNearNetworkPreset().rootPublicKeys).toEqual({
+      [DOMAIN_SECP256K1]:
+        'secp256k1:4NfTiv3UsGahebgTaHyD9vF8KYKMBnfd6kh94mK6xv8fGBiJB8TBtFMP5WWXz6B89Ac1fbpzPwAvoyQebemHFwx3',
+      [DOMAIN_ED25519]: 'ed25519:6vSEtQxrQj6txUMh33WC4ERyCWmNMRTdufDWAaDY3Un2',
+    });
+    expect(mainnet.getNearNetworkPreset().rootPublicKeys).toEqual({
+      [DOMAIN_SECP256K1]:
+        'secp256k1:3tFRbMqmoa6AAALMrEFAYCEoHcqKxeW38YptwowBVBtXK1vo36HDbUWuR6EZmoK4JcH6HDkNMGGqP1ouV7VZUWya',
+      [DOMAIN_ED25519]: 'ed25519:G9hwngxWNKdmqMCmU1Yt6LPhFpayJeKFxyAV1HqMNLtF',
+    });
+  });
+
+  it('should derive addresses and sign with an injected signer', async () => {
+    const client = new ProductionMPCClient({
+      nearNetwork: 'testnet',
+      rpcUrl,
+      signerAccountId: SIGNER,
+      signer: new KeyPairSigner(keyPair),
+      expectedRootPublicKeys: { [DOMAIN_SECP256K1]: server.getRootPublicKey(DOMAIN_SECP256K1) },
+    });
+
+    const derived = await client.deriveAddress(SIGNER, 'bitcoin');
+    const response = await client.requestSignature({ nearAccount: SIGNER, chain: 'ethereum', payload: 'ab'.repeat(32) });
+
+    // Testnet preset: destination chains default to their test networks
+    expect(derived.address.startsWith('tb1')).toBe(true);
+    expect(await client.verifySignature(response, 'ab'.repeat(32))).toBe(true);
+    expect(server.calls).toEqual([expect.objectContaining({ signerId: SIGNER, methodName: 'sign' })]);
+  });
+
+  it('should refuse to derive or sign when the contract root key is not the preset key', async () => {
+    const client = new ProductionMPCClient({
+      nearNetwork: 'testnet',
+      rpcUrl,
+      signerAccountId: SIGNER,
+      signer: new KeyPairSigner(keyPair),
+    });
+
+    await expect(client.deriveAddress(SIGNER, 'ethereum')).rejects.toThrow('Root public key mismatch');
+    await expect(
+      client.requestSignature({ nearAccount: SIGNER, chain: 'ethereum', payload: 'ab'.repeat(32) })
+    ).rejects.toThrow('Root public key mismatch');
+  });
+
+  it('should refuse ed25519 derivations when the contract ed25519 root key is not the preset key', async () => {
+    const client = new ProductionMPCClient({
+      nearNetwork: 'testnet',
+      rpcUrl,
+      expectedRootPublicKeys: {
+        ...NEAR_NETWORK_PRESETS.testnet.rootPublicKeys,
+        [DOMAIN_SECP256K1]: server.getRootPublicKey(DOMAIN_SECP256K1),
+      },
+    });
+
+    await expect(client.deriveAddress(SIGNER, 'solana')).rejects.toThrow(
+      `Root public key mismatch for ${CONTRACT} (domain ${DOMAIN_ED25519})`
+    );
+  });
+
+  it('should skip the root key check when disabled', async () => {
+    const client = new ProductionMPCClient({ nearNetwork: 'testnet', rpcUrl, verifyRootPublicKeys: false });
+
+    const derived = await client.deriveAddress(SIGNER, 'ethereum');
+
+    expect(derived.address).toMatch(/^0x[0-9a-fA-F]{40}$/);
+  });
+
+  it('should require a signer account with an injected signer', () => {
+    expect(() => new ProductionMPCClient({ nearNetwork: 'testnet', signer: new KeyPairSigner(keyPair) })).toThrow(
+      'signerAccountId is required'
+    );
+  });
+
+  it('should be selected by the factory from config or environment', () => {
+    expect(createChainSignaturesClient({ nearNetwork: 'mainnet' })).toBeInstanceOf(ProductionMPCClient);
+
+    const saved = { ...process.env };
+    process.env.USE_PRODUCTION_SIMULATORS = 'true';
+    process.env.NEAR_NETWORK = 'testnet';
+    try {
+      const client = createChainSignaturesClient() as ProductionMPCClient;
+      expect(client).toBeInstanceOf(ProductionMPCClient);
+      expect(client.getNearNetworkPreset().networkId).toBe('testnet');
+
+      process.env.NEAR_NETWORK = 'localnet';
+      expect(() => createChainSignaturesClient()).toThrow("NEAR_NETWORK must be 'testnet' or 'mainnet'");
+    } finally {
+      process.env = saved;
+    }
+  });
+});
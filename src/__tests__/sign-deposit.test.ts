@@ -0,0 +1,141 @@
+/**
+ * Sign deposit and cost accounting unit tests
+ */
+
+import { NearClient } from '../chain-signatures/near-client';
+import { MPCService } from '../chain-signatures/mpc-service';
+import { parseSignDepositFallback } from '../config';
+
+const CONTRACT = 'v1.signer.localnet';
+const SIGNER = 'alice.localnet';
+
+function successValue(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+function createNearClient(
+  viewFunction: jest.Mock,
+  options: { depositFallback?: bigint; receipts?: unknown[] } = {}
+) {
+  const client = new NearClient('http://localhost:3030', 'localnet', CONTRACT, SIGNER, undefined, {
+    depositFallback: options.depositFallback,
+  });
+
+  const functionCall = jest.fn(async (_options: { attachedDeposit?: bigint }) => ({
+    transaction: { hash: 'tx-hash' },
+    transaction_outcome: { outcome: { gas_burnt: 2_000_000_000, tokens_burnt: '200' } },
+    receipts_outcome: [
+      {
+        outcome: {
+          gas_burnt: 5_000_000_000_000,
+          tokens_burnt: '500000',
+          status: {
+            SuccessValue: successValue({
+              big_r: { affine_point: '02' + '11'.repeat(32) },
+              s: { scalar: '22'.repeat(32) },
+              recovery_id: 1,
+            }),
+          },
+        },
+      },
+    ],
+  }));
+  const txStatusReceipts = jest.fn(async () => ({ receipts: options.receipts ?? [] }));
+
+  // Skip initialize(): the client only connects when `near` is unset
+  Object.assign(client as any, {
+    near: { connection: { provider: { txStatusReceipts } } },
+    viewAccount: { viewFunction },
+    signerAccount: { functionCall },
+  });
+
+  return { client, functionCall, txStatusReceipts };
+}
+
+describe('Sign deposit', () => {
+  it('should attach the deposit reported by the contract and report the refund', async () => {
+    const viewFunction = jest.fn().mockResolvedValue('50000000000000000000000');
+    const { client, functionCall } = createNearClient(viewFunction, {
+      receipts: [
+        {
+          predecessor_id: CONTRACT,
+          receiver_id: SIGNER,
+          receipt: { Action: { actions: [{ Transfer: { deposit: '30000000000000000000000' } }] } },
+        },
+        // Gas refunds come from `system` and are not deposit refunds
+        {
+          predecessor_id: 'system',
+          receiver_id: SIGNER,
+          receipt: { Action: { actions: [{ Transfer: { deposit: '999' } }] } },
+        },
+      ],
+    });
+
+    const signature = await client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) });
+
+    expect(viewFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ methodName: 'experimental_signature_deposit' })
+    );
+    expect(functionCall.mock.calls[0][0].attachedDeposit).toBe(BigInt('50000000000000000000000'));
+    expect(signature.recovery_id).toBe(1);
+    expect(signature.cost).toEqual({
+      deposit: '50000000000000000000000',
+      depositSource: 'contract',
+      refund: '30000000000000000000000',
+      gasBurnt: '5002000000000',
+      tokensBurnt: '500200',
+    });
+  });
+
+  it('should fall back to 1 yoctoNEAR when the contract has no deposit view', async () => {
+    const viewFunction = jest.fn().mockRejectedValue(new Error('MethodNotFound'));
+    const { client, functionCall } = createNearClient(viewFunction);
+
+    const { cost } = await client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) });
+
+    expect(functionCall.mock.calls[0][0].attachedDeposit).toBe(BigInt(1));
+    expect(cost).toMatchObject({ deposit: '1', depositSource: 'fallback', refund: '0' });
+  });
+
+  it('should use the configured fallback deposit', async () => {
+    const viewFunction = jest.fn().mockRejectedValue(new Error('MethodNotFound'));
+    const { client } = createNearClient(viewFunction, { depositFallback: BigInt(10) ** BigInt(21) });
+
+    expect(await client.getSignDeposit()).toEqual({ deposit: BigInt(10) ** BigInt(21), source: 'fallback' });
+  });
+
+  it('should rethrow view failures other than a missing method', async () => {
+    const viewFunction = jest.fn().mockRejectedValue(new Error('[-32000] Server error: Timeout'));
+    const { client, functionCall } = createNearClient(viewFunction);
+
+    await expect(client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) })).rejects.toThrow('Timeout');
+    expect(functionCall).not.toHaveBeenCalled();
+
+    viewFunction.mockRejectedValue(new Error('Cannot find contract code for account v1.signer.localnet: CodeDoesNotExist'));
+    expect(await client.getSignDeposit()).toEqual({ deposit: BigInt(1), source: 'fallback' });
+  });
+
+  it('should reject fallback deposits that are not yoctoNEAR integers', () => {
+    expect(parseSignDepositFallback('1000')).toBe(BigInt(1000));
+    expect(parseSignDepositFallback(undefined)).toBeUndefined();
+    expect(() => parseSignDepositFallback('1 NEAR')).toThrow('Invalid signDepositFallback "1 NEAR"');
+    expect(() => parseSignDepositFallback('1.5')).toThrow('Invalid signDepositFallback "1.5"');
+    expect(() => new MPCService({
+      rpcUrl: 'http://localhost:3030',
+      networkId: 'localnet',
+      mpcContractId: CONTRACT,
+      signDepositFallback: '1.5',
+    })).toThrow('Invalid signDepositFallback');
+  });
+
+  it('should leave the refund unset when the receipts cannot be fetched', async () => {
+    const viewFunction = jest.fn().mockResolvedValue('1');
+    const { client, txStatusReceipts } = createNearClient(viewFunction);
+    txStatusReceipts.mockRejectedValue(new Error('UNKNOWN_TRANSACTION'));
+
+    const { cost } = await client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) });
+
+    expect(cost.refund).toBeUndefined();
+    expect(cost.gasBurnt).toBe('5002000000000');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Signature serialization unit tests
+ *
+ * MPC-shaped signatures are built from a local ethers SigningKey, so expected
+ * values can be checked against ethers' own serialization.
+ */
+
+import { SigningKey, keccak256, toUtf8Bytes } from 'ethers';
+import {
+  toEcdsaComponents,
+  toEvmSignatureHex,
+  toEvmSignatureParts,
+  toDerSignatureHex,
+  toDerSignatureWithSighash,
+  SECP256K1_N,
+} from '../chain-signatures/signature-format';
+import { getChainAdapter } from '../chain-signatures/chain-registry';
+import { Secp256k1Signature } from '../types';
+
+const signingKey = new SigningKey('0x' + '11'.repeat(32));
+const digest = keccak256(toUtf8Bytes('cross-chain-simulator'));
+const ethersSig = signingKey.sign(digest);
+
+// MPC format: big_r is the compressed nonce point, whose parity is the recovery id
+const mpcSignature: Secp256k1Signature = {
+  big_r: (ethersSig.yParity ? '03' : '02') + ethersSig.r.slice(2),
+  s: ethersSig.s.slice(2),
+  recovery_id: ethersSig.yParity,
+};
+
+describe('Signature Format', () => {
+  it('should serialize the 65-byte EVM signature like ethers', () => {
+    expect(toEvmSignatureHex(mpcSignature)).toBe(ethersSig.serialized);
+  });
+
+  it('should normalize high-S signatures and flip the recovery id', () => {
+    const highS: Secp256k1Signature = {
+      ...mpcSignature,
+      s: (SECP256K1_N - BigInt(ethersSig.s)).toString(16).padStart(64, '0'),
+      recovery_id: ethersSig.yParity ^ 1,
+    };
+
+    const normalized = toEcdsaComponents(highS, true);
+
+    expect(normalized.s).toBe(BigInt(ethersSig.s));
+    expect(normalized.recoveryId).toBe(ethersSig.yParity);
+    expect(toEvmSignatureHex(highS)).toBe(ethersSig.serialized);
+  });
+
+  it('should DER-encode r and s as positive integers', () => {
+    const der = Buffer.from(toDerSignatureHex(mpcSignature), 'hex');
+
+    expect(der[0]).toBe(0x30);
+    expect(der[1]).toBe(der.length - 2);
+    expect(der[2]).toBe(0x02);
+
+    const rLength = der[3];
+    const r = der.subarray(4, 4 + rLength);
+    const sLength = der[5 + rLength];
+    const s = der.subarray(6 + rLength, 6 + rLength + sLength);
+
+    expect(BigInt('0x' + r.toString('hex'))).toBe(BigInt(ethersSig.r));
+    expect(BigInt('0x' + s.toString('hex'))).toBe(BigInt(ethersSig.s));
+    expect(r[0] & 0x80).toBe(0);
+  });
+
+  it('should expose EVM r, s, v and yParity, with EIP-155 v for a chainId', () => {
+    const parts = toEvmSignatureParts(mpcSignature);
+    const eip155 = toEvmSignatureParts(mpcSignature, 1);
+
+    expect(parts).toEqual({
+      r: ethersSig.r,
+      s: ethersSig.s,
+      v: ethersSig.v,
+      yParity: ethersSig.yParity,
+      serialized: ethersSig.serialized,
+    });
+    expect(eip155.v).toBe(37 + ethersSig.yParity);
+  });
+
+  it('should append the sighash type byte to DER signatures', () => {
+    const der = toDerSignatureWithSighash(mpcSignature, 0x41);
+
+    expect(der.der).toBe(toDerSignatureHex(mpcSignature));
+    expect(der.serialized).toBe(der.der + '41');
+  });
+
+  it('should offer structured formats per chain adapter', () => {
+    const compact = ethersSig.r.slice(2) + ethersSig.s.slice(2);
+    const evm = getChainAdapter('ethereum').formatSignatures!(mpcSignature);
+    const bitcoin = getChainAdapter('bitcoin').formatSignatures!(mpcSignature);
+    const bitcoinCash = getChainAdapter('bitcoincash').formatSignatures!(mpcSignature);
+
+    expect(evm.evm?.serialized).toBe(ethersSig.serialized);
+    expect(evm.compact).toBe(compact);
+    expect(bitcoin.der?.serialized).toBe(toDerSignatureHex(mpcSignature) + '01');
+    expect(bitcoin.compact).toBe(compact);
+    expect(bitcoinCash.der?.sighashType).toBe(0x41);
+    expect(getChainAdapter('cosmoshub').formatSignatures!(mpcSignature)).toEqual({ compact });
+    expect(getChainAdapter('solana').formatSignatures).toBeUndefined();
+  });
+});
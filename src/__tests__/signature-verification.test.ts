@@ -0,0 +1,108 @@
+/**
+ * Signature verification unit tests
+ *
+ * Signatures come from local keys (ethers for secp256k1, noble for ed25519)
+ * shaped like MPC responses, so the expected signer is known.
+ */
+
+import { SigningKey } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  verifySecp256k1Signature,
+  verifyEd25519Signature,
+} from '../chain-signatures/signature-verification';
+import { encodeBase58 } from '../chain-signatures/address-encoding';
+import { MPCService } from '../chain-signatures/mpc-service';
+import { Secp256k1Signature, Ed25519Signature } from '../types';
+
+const signingKey = new SigningKey('0x' + '11'.repeat(32));
+const otherKey = new SigningKey('0x' + '22'.repeat(32));
+const payloadHash = '0x' + 'ab'.repeat(32);
+const ethersSig = signingKey.sign(payloadHash);
+
+const secpPublicKey = 'secp256k1:' + encodeBase58(Buffer.from(signingKey.publicKey.slice(4), 'hex'));
+const otherPublicKey = 'secp256k1:' + encodeBase58(Buffer.from(otherKey.publicKey.slice(4), 'hex'));
+
+const mpcSignature: Secp256k1Signature = {
+  scheme: 'secp256k1',
+  big_r: (ethersSig.yParity ? '03' : '02') + ethersSig.r.slice(2),
+  s: ethersSig.s.slice(2),
+  recovery_id: ethersSig.yParity,
+};
+
+const edPrivateKey = new Uint8Array(32).fill(7);
+const edPublicKey = 'ed25519:' + encodeBase58(ed25519.getPublicKey(edPrivateKey));
+const edMessage = Buffer.alloc(48, 0x5a);
+const edSignature: Ed25519Signature = {
+  scheme: 'ed25519',
+  signature: Buffer.from(ed25519.sign(edMessage, edPrivateKey)).toString('hex'),
+};
+
+function hashBytes(): Uint8Array {
+  return new Uint8Array(Buffer.from(payloadHash.slice(2), 'hex'));
+}
+
+describe('Signature Verification', () => {
+  describe('secp256k1', () => {
+    it('should recover the signer and accept the expected key', () => {
+      const result = verifySecp256k1Signature(mpcSignature, hashBytes(), secpPublicKey);
+
+      expect(result).toEqual({ valid: true, status: 'valid', recoveredPublicKey: secpPublicKey });
+    });
+
+    it('should try both parities when recovery_id is missing', () => {
+      const { recovery_id, ...withoutRecoveryId } = mpcSignature;
+
+      expect(verifySecp256k1Signature(withoutRecoveryId, hashBytes(), secpPublicKey).valid).toBe(true);
+    });
+
+    it('should report a well-formed signature from another key as wrong_signer', () => {
+      const result = verifySecp256k1Signature(mpcSignature, hashBytes(), otherPublicKey);
+
+      expect(result.status).toBe('wrong_signer');
+      expect(result.recoveredPublicKey).toBe(secpPublicKey);
+    });
+
+    it('should report out-of-range and unparsable signatures as malformed', () => {
+      expect(verifySecp256k1Signature({ ...mpcSignature, s: '00'.repeat(32) }, hashBytes(), secpPublicKey).status)
+        .toBe('malformed');
+      expect(verifySecp256k1Signature({ ...mpcSignature, big_r: 'abcd' }, hashBytes(), secpPublicKey).status)
+        .toBe('malformed');
+      expect(verifySecp256k1Signature(mpcSignature, hashBytes(), 'secp256k1:1111').status).toBe('malformed');
+    });
+  });
+
+  describe('ed25519', () => {
+    it('should verify against the expected key', () => {
+      expect(verifyEd25519Signature(edSignature, edMessage, edPublicKey).status).toBe('valid');
+    });
+
+    it('should distinguish a different signer from a malformed signature', () => {
+      const otherEdKey = 'ed25519:' + encodeBase58(ed25519.getPublicKey(new Uint8Array(32).fill(8)));
+
+      expect(verifyEd25519Signature(edSignature, edMessage, otherEdKey).status).toBe('wrong_signer');
+      expect(verifyEd25519Signature({ ...edSignature, signature: 'ff'.repeat(64) }, edMessage, edPublicKey).status)
+        .toBe('malformed');
+    });
+  });
+
+  describe('MPCService.verifySignatureDetailed', () => {
+    const mpc = new MPCService({
+      rpcUrl: 'http://localhost:3030',
+      networkId: 'localnet',
+      mpcContractId: 'v1.signer.localnet',
+    });
+
+    it('should hash the payload with the chain adapter rule', async () => {
+      expect(await mpc.verifySignature(mpcSignature, payloadHash, secpPublicKey, 'ethereum')).toBe(true);
+      expect(await mpc.verifySignature(edSignature, edMessage.toString('hex'), edPublicKey, 'solana')).toBe(true);
+    });
+
+    it('should report a scheme that does not match the chain as malformed', async () => {
+      const result = await mpc.verifySignatureDetailed(edSignature, edMessage.toString('hex'), edPublicKey, 'ethereum');
+
+      expect(result.status).toBe('malformed');
+      expect(result.reason).toContain('Expected a secp256k1 signature');
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * ChainSignaturesSimulator address derivation unit tests
+ *
+ * The NEAR client is stubbed to return a fixed derived key, so these tests
+ * exercise only the chain-specific address encoding (no localnet required).
+ */
+
+import { ChainSignaturesSimulator } from '../chain-signatures/simulator';
+import { encodeBase58, decodeBase58 } from '../chain-signatures/address-encoding';
+import { registerChain, getChainAdapter } from '../chain-signatures/chain-registry';
+import { createEvmChainAdapter } from '../chain-signatures/chains';
+import { createHash } from 'crypto';
+import { LocalnetConfig } from '../config';
+
+// secp256k1 generator point (private key = 1) in the contract's "secp256k1:<base58 x,y>" format
+const DERIVED_KEY =
+  'secp256k1:' +
+  encodeBase58(
+    Buffer.from(
+      '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+        '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8',
+      'hex'
+    )
+  );
+
+function createSimulator(overrides: Partial<LocalnetConfig> = {}): ChainSignaturesSimulator {
+  const simulator = new ChainSignaturesSimulator({
+    rpcUrl: 'http://localhost:3030',
+    networkId: 'localnet',
+    mpcContractId: 'v1.signer.localnet',
+    mpcNodes: [],
+    ...overrides,
+  });
+  (simulator as any).nearClient = {
+    callDerivedPublicKey: jest.fn().mockResolvedValue(DERIVED_KEY),
+  };
+  return simulator;
+}
+
+describe('ChainSignaturesSimulator address derivation', () => {
+  describe('Network variants', () => {
+    it('should default to mainnet addresses', async () => {
+      const simulator = createSimulator();
+      const result = await simulator.deriveAddress('alice.localnet', 'bitcoin');
+
+      expect(result.network).toBe('mainnet');
+      expect(result.address).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+    });
+
+    it('should use tb1 for bitcoin testnet and bcrt1 for regtest', async () => {
+      const simulator = createSimulator();
+      const testnet = await simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { network: 'testnet' });
+      const regtest = await simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { network: 'regtest' });
+
+      expect(testnet.address).toBe('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+      expect(testnet.network).toBe('testnet');
+      expect(regtest.address).toMatch(/^bcrt1q[a-z0-9]{38}$/);
+      expect(regtest.network).toBe('regtest');
+    });
+
+    it('should use the testnet version byte for dogecoin', async () => {
+      const simulator = createSimulator();
+      const mainnet = await simulator.deriveAddress('alice.localnet', 'dogecoin');
+      const testnet = await simulator.deriveAddress('alice.localnet', 'dogecoin', undefined, { network: 'testnet' });
+
+      expect(mainnet.address.startsWith('D')).toBe(true);
+      expect(testnet.address.startsWith('n')).toBe(true);
+    });
+
+    it('should take the default network from LocalnetConfig', async () => {
+      const simulator = createSimulator({ network: 'regtest' });
+      const result = await simulator.deriveAddress('alice.localnet', 'bitcoin');
+
+      expect(result.network).toBe('regtest');
+      expect(result.address.startsWith('bcrt1')).toBe(true);
+    });
+  });
+
+  describe('Bitcoin address types', () => {
+    it('should report the script type and scriptPubKey for each address type', async () => {
+      const simulator = createSimulator();
+      const p2pkh = await simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { addressType: 'p2pkh' });
+      const nested = await simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { addressType: 'p2sh-p2wpkh' });
+      const p2wpkh = await simulator.deriveAddress('alice.localnet', 'bitcoin');
+      const p2tr = await simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { addressType: 'p2tr' });
+
+      expect(p2pkh.address).toBe('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+      expect(p2pkh.scriptPubKey).toBe('76a914751e76e8199196d454941c45d1b3a323f1433bd688ac');
+      expect(nested.address).toBe('3JvL6Ymt8MVWiCNHC7oWU6nLeHNJKLZGLN');
+      expect(nested.scriptPubKey).toMatch(/^a914[0-9a-f]{40}87$/);
+      expect(p2wpkh.addressType).toBe('p2wpkh');
+      expect(p2wpkh.scriptPubKey).toBe('0014751e76e8199196d454941c45d1b3a323f1433bd6');
+      expect(p2tr.addressType).toBe('p2tr');
+      expect(p2tr.address).toMatch(/^bc1p[a-z0-9]{58}$/);
+      expect(p2tr.scriptPubKey).toMatch(/^5120[0-9a-f]{64}$/);
+    });
+
+    it('should reject addressType for non-bitcoin chains', async () => {
+      const simulator = createSimulator();
+
+      await expect(
+        simulator.deriveAddress('alice.localnet', 'ethereum', undefined, { addressType: 'p2tr' })
+      ).rejects.toThrow('Address type p2tr is not supported for chain: ethereum');
+    });
+  });
+
+  describe('Ed25519 chains', () => {
+    const ed25519Bytes = Buffer.alloc(32, 7);
+    const ed25519Key = 'ed25519:' + encodeBase58(ed25519Bytes);
+
+    it('should derive solana and near addresses through the ed25519 domain', async () => {
+      const simulator = createSimulator();
+      const callDerivedPublicKey = jest.fn().mockResolvedValue(ed25519Key);
+      (simulator as any).nearClient = { callDerivedPublicKey };
+
+      const solana = await simulator.deriveAddress('alice.localnet', 'solana');
+      const near = await simulator.deriveAddress('alice.localnet', 'near');
+
+      expect(callDerivedPublicKey).toHaveBeenCalledWith('solana-1', 1, 'alice.localnet');
+      expect(callDerivedPublicKey).toHaveBeenCalledWith('near-1', 1, 'alice.localnet');
+      expect(solana.address).toBe(encodeBase58(ed25519Bytes));
+      expect(near.address).toBe(ed25519Bytes.toString('hex'));
+    });
+
+    it('should keep secp256k1 chains on domain 0', async () => {
+      const simulator = createSimulator();
+      await simulator.deriveAddress('alice.localnet', 'ethereum');
+
+      expect((simulator as any).nearClient.callDerivedPublicKey).toHaveBeenCalledWith('ethereum-1', 0, 'alice.localnet');
+    });
+  });
+
+  describe('Chain adapter registry', () => {
+    it('should derive addresses for consumer-registered chains', async () => {
+      registerChain(createEvmChainAdapter('base'));
+      const simulator = createSimulator();
+
+      const base = await simulator.deriveAddress('alice.localnet', 'base');
+      const ethereum = await simulator.deriveAddress('alice.localnet', 'ethereum');
+
+      expect(base.chain).toBe('base');
+      expect(base.address).toBe(ethereum.address);
+      expect(getChainAdapter('base').domainId).toBe(0);
+    });
+
+    it('should reject chains without an adapter', async () => {
+      const simulator = createSimulator();
+
+      await expect(simulator.deriveAddress('alice.localnet', 'unknown-chain')).rejects.toThrow(
+        'Unsupported chain: unknown-chain'
+      );
+    });
+
+    it('should format destination tx ids per adapter', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.simulateDestinationTx({ chain: 'ethereum', correlateTo: 'tx' })).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(await simulator.simulateDestinationTx({ chain: 'bitcoin', correlateTo: 'tx' })).toMatch(/^[0-9a-f]{64}$/);
+      expect(await simulator.simulateDestinationTx({ chain: 'solana', correlateTo: 'tx' })).toMatch(/^[1-9A-HJ-NP-Za-km-z]{86,88}$/);
+      expect(await simulator.simulateDestinationTx({ chain: 'ripple', correlateTo: 'tx' })).toMatch(/^[0-9A-F]{64}$/);
+    });
+  });
+
+  describe('Cosmos chains', () => {
+    it('should bech32-encode HASH160 of the compressed key with the chain HRP', async () => {
+      const simulator = createSimulator();
+      const result = await simulator.deriveAddress('alice.localnet', 'cosmoshub');
+
+      expect(result.hrp).toBe('cosmos');
+      expect(result.address).toMatch(/^cosmos1w508d6qejxtdg4y5r3zarvary0c5xw7k[a-z0-9]{6}$/);
+    });
+
+    it('should accept a caller-supplied HRP', async () => {
+      const simulator = createSimulator();
+      const result = await simulator.deriveAddress('alice.localnet', 'cosmoshub', undefined, { hrp: 'celestia' });
+
+      expect(result.hrp).toBe('celestia');
+      expect(result.address).toMatch(/^celestia1w508d6qejxtdg4y5r3zarvary0c5xw7k[a-z0-9]{6}$/);
+    });
+
+    it('should use the keccak-derived Ethereum address bytes for injective', async () => {
+      const simulator = createSimulator();
+      const injective = await simulator.deriveAddress('alice.localnet', 'injective');
+      const cosmos = await simulator.deriveAddress('alice.localnet', 'cosmoshub');
+
+      expect(injective.hrp).toBe('inj');
+      expect(injective.address).toMatch(/^inj1[a-z0-9]{38}$/);
+      expect(injective.address.slice(4, -6)).not.toBe(cosmos.address.slice(7, -6));
+    });
+
+    it('should reject a custom HRP for non-Cosmos chains', async () => {
+      const simulator = createSimulator();
+
+      await expect(
+        simulator.deriveAddress('alice.localnet', 'bitcoin', undefined, { hrp: 'tb' })
+      ).rejects.toThrow('Custom HRP is not supported for chain: bitcoin');
+    });
+  });
+
+  describe('Tron', () => {
+    it('should base58check-encode 0x41 + the EVM address bytes', async () => {
+      const simulator = createSimulator();
+      const tron = await simulator.deriveAddress('alice.localnet', 'tron');
+      const ethereum = await simulator.deriveAddress('alice.localnet', 'ethereum');
+      const decoded = Buffer.from(decodeBase58(tron.address));
+
+      expect(tron.address).toMatch(/^T[1-9A-HJ-NP-Za-km-z]{33}$/);
+      expect(decoded[0]).toBe(0x41);
+      expect('0x' + decoded.subarray(1, 21).toString('hex')).toBe(ethereum.address.toLowerCase());
+    });
+
+    it('should produce Tron-shaped tx ids', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.simulateDestinationTx({ chain: 'tron', correlateTo: 'usdt-transfer' })).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('Litecoin and Bitcoin Cash', () => {
+    it('should derive ltc1 and L addresses for litecoin', async () => {
+      const simulator = createSimulator();
+      const segwit = await simulator.deriveAddress('alice.localnet', 'litecoin');
+      const legacy = await simulator.deriveAddress('alice.localnet', 'litecoin', undefined, { addressType: 'p2pkh' });
+
+      expect(segwit.address).toBe('ltc1qw508d6qejxtdg4y5r3zarvary0c5xw7kgmn4n9');
+      expect(legacy.address).toMatch(/^L[1-9A-HJ-NP-Za-km-z]{33}$/);
+      await expect(
+        simulator.deriveAddress('alice.localnet', 'litecoin', undefined, { addressType: 'p2tr' })
+      ).rejects.toThrow('Address type p2tr is not supported for chain: litecoin');
+    });
+
+    it('should derive CashAddr addresses for bitcoincash', async () => {
+      const simulator = createSimulator();
+      const mainnet = await simulator.deriveAddress('alice.localnet', 'bitcoincash');
+      const testnet = await simulator.deriveAddress('alice.localnet', 'bitcoincash', undefined, { network: 'testnet' });
+
+      expect(mainnet.address).toMatch(/^bitcoincash:q[a-z0-9]{41}$/);
+      expect(testnet.address).toMatch(/^bchtest:q[a-z0-9]{41}$/);
+      expect(mainnet.scriptPubKey).toBe('76a914751e76e8199196d454941c45d1b3a323f1433bd688ac');
+    });
+
+    it('should double-SHA-256 sighash preimages and require FORKID for bitcoincash', () => {
+      const preimage = '01000000' + 'ab'.repeat(150);
+      const withForkId = preimage + '41000000';
+      const withoutForkId = preimage + '01000000';
+      const doubleSha = (hex: string) =>
+        createHash('sha256').update(createHash('sha256').update(Buffer.from(hex, 'hex')).digest()).digest('hex');
+
+      expect(Buffer.from(getChainAdapter('litecoin').hashPayload(withoutForkId)).toString('hex')).toBe(doubleSha(withoutForkId));
+      expect(Buffer.from(getChainAdapter('bitcoincash').hashPayload(withForkId)).toString('hex')).toBe(doubleSha(withForkId));
+      expect(() => getChainAdapter('bitcoincash').hashPayload(withoutForkId)).toThrow('SIGHASH_FORKID');
+      // The encoding is checked before the trailing hash type is read
+      expect(() => getChainAdapter('bitcoincash').hashPayload(preimage + 'zz000000')).toThrow('Sighash preimage must be hex-encoded');
+      expect(() => getChainAdapter('bitcoincash').hashPayload('0' + withForkId)).toThrow('Sighash preimage must be hex-encoded');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Stand-in NEAR JSON-RPC server tests
+ *
+ * NearClient, the simulator and MpcSetup talk to the stand-in over real HTTP.
+ */
+
+import { connect, keyStores, KeyPair } from 'near-api-js';
+import { StandInRpcServer } from '../localnet/stand-in-rpc-server';
+import { MpcSetup, ParticipantInfo } from '../localnet/mpc-setup';
+import { NearClient, DOMAIN_SECP256K1 } from '../chain-signatures/near-client';
+import { ChainSignaturesSimulator } from '../chain-signatures/simulator';
+import { deriveChildPublicKey } from '../chain-signatures/key-derivation';
+
+const CONTRACT = 'v1.signer.localnet';
+const SIGNER = 'alice.localnet';
+const ONE_NEAR = BigInt(10) ** BigInt(24);
+
+const participants: ParticipantInfo[] = [
+  { accountId: 'mpc-node-0.localnet', index: 0, signPk: 'ed25519:node0', url: 'http://10.0.0.1:3000' },
+  { accountId: 'mpc-node-1.localnet', index: 1, signPk: 'ed25519:node1', url: 'http://10.0.0.2:3000' },
+];
+
+async function rpc(url: string, method: string, params: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 'test', method, params }),
+  });
+  return response.json();
+}
+
+describe('StandInRpcServer', () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  let server: StandInRpcServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new StandInRpcServer({ participants, signatureDeposit: (ONE_NEAR / BigInt(20)).toString() });
+    server.addAccount(SIGNER, { publicKeys: [keyPair.getPublicKey().toString()] });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should answer status, blocks and contract account queries', async () => {
+    const status = await rpc(url, 'status', []);
+    const block = await rpc(url, 'block', { finality: 'final' });
+    const account = await rpc(url, 'query', { request_type: 'view_account', finality: 'final', account_id: CONTRACT });
+    const missing = await rpc(url, 'query', { request_type: 'view_account', finality: 'final', account_id: 'nobody.localnet' });
+
+    expect(status.result.sync_info.latest_block_hash).toBe(block.result.header.hash);
+    expect(account.result.code_hash).not.toBe('11111111111111111111111111111111');
+    expect(missing.error.cause.name).toBe('UNKNOWN_ACCOUNT');
+    expect((await fetch(`${url}/health`)).ok).toBe(true);
+  });
+
+  it('should serve root and derived keys from the contract views', async () => {
+    const client = new NearClient(url, 'localnet', CONTRACT);
+
+    const root = await client.getRootPublicKey(DOMAIN_SECP256K1);
+    const derived = await client.callDerivedPublicKey('ethereum-1', DOMAIN_SECP256K1, SIGNER);
+
+    expect(root).toBe(server.getRootPublicKey(DOMAIN_SECP256K1));
+    expect(derived).toBe(deriveChildPublicKey(root, SIGNER, 'ethereum-1'));
+  });
+
+  it('should sign through send_tx and return the signature in receipts_outcome', async () => {
+    const simulator = new ChainSignaturesSimulator({
+      rpcUrl: url,
+      networkId: 'localnet',
+      mpcContractId: CONTRACT,
+      signerAccountId: SIGNER,
+      signerPrivateKey: keyPair.toString(),
+    });
+    const balanceBefore = server.getBalance(SIGNER);
+
+    const response = await simulator.requestSignature({ nearAccount: SIGNER, chain: 'ethereum', payload: 'ab'.repeat(32) });
+
+    expect(await simulator.verifySignature(response, 'ab'.repeat(32))).toBe(true);
+    expect(server.calls.map((call) => call.methodName)).toEqual(['sign']);
+    expect(response.cost).toMatchObject({
+      deposit: (ONE_NEAR / BigInt(20)).toString(),
+      depositSource: 'contract',
+      refund: '0',
+    });
+    expect(balanceBefore - server.getBalance(SIGNER)).toBe(
+      ONE_NEAR / BigInt(20) + BigInt(response.cost!.tokensBurnt)
+    );
+  });
+
+  it('should sign ed25519 payloads', async () => {
+    const simulator = new ChainSignaturesSimulator({
+      rpcUrl: url,
+      networkId: 'localnet',
+      mpcContractId: CONTRACT,
+      signerAccountId: SIGNER,
+      signerPrivateKey: keyPair.toString(),
+    });
+    const message = Buffer.from('a solana message of at least 32 bytes').toString('hex');
+
+    const response = await simulator.requestSignature({ nearAccount: SIGNER, chain: 'solana', payload: message });
+
+    expect(await simulator.verifySignature(response, message)).toBe(true);
+  });
+
+  it('should reject injected transaction errors with nearcore messages', async () => {
+    const client = new NearClient(url, 'localnet', CONTRACT, SIGNER, keyPair.toString());
+    server.injectTxError('InvalidChain');
+
+    await expect(client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) }))
+      .rejects.toThrow("Transaction parent block hash doesn't belong to the current chain");
+    await expect(client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) })).resolves.toBeDefined();
+  });
+
+  it('should report parse errors and internal errors with their JSON-RPC codes', async () => {
+    const malformed = await fetch(url, { method: 'POST', body: '{"jsonrpc": "2.0",' });
+    expect(((await malformed.json()) as { error: unknown }).error).toEqual(expect.objectContaining({ code: -32700, message: 'Parse error' }));
+
+    jest.spyOn(server as any, 'dispatch').mockImplementationOnce(() => {
+      throw new TypeError('boom');
+    });
+    const failed = await rpc(url, 'status', []);
+    expect(failed.id).toBe('test');
+    expect(failed.error).toEqual({ code: -32603, message: 'Internal error', data: 'boom' });
+  });
+
+  it('should fail sign calls that attach less than the required deposit', async () => {
+    const client = new NearClient(url, 'localnet', CONTRACT, SIGNER, keyPair.toString());
+    jest.spyOn(client, 'getSignDeposit').mockResolvedValue({ deposit: BigInt(1), source: 'fallback' });
+
+    await expect(client.callSign({ path: 'ethereum-1', payload: new Uint8Array(32) }))
+      .rejects.toThrow('Attached deposit is lower than required');
+  });
+
+  it('should fail sign calls whose payload_v2 is not hex', async () => {
+    const keyStore = new keyStores.InMemoryKeyStore();
+    await keyStore.setKey('localnet', SIGNER, keyPair);
+    const account = await (await connect({ networkId: 'localnet', nodeUrl: url, keyStore })).account(SIGNER);
+    const sign = (payloadV2: Record<string, string>, domainId: number) => account.functionCall({
+      contractId: CONTRACT,
+      methodName: 'sign',
+      args: { request: { path: 'solana-1', payload_v2: payloadV2, domain_id: domainId } },
+      attachedDeposit: ONE_NEAR / BigInt(20),
+    });
+
+    // Buffer.from(..., 'hex') would stop at the first non-hex character
+    await expect(sign({ Eddsa: 'ab'.repeat(32) + 'zz' }, 1)).rejects.toThrow('Invalid payload_v2.Eddsa');
+    await expect(sign({ Ecdsa: 'ab'.repeat(31) + 'a' }, 0)).rejects.toThrow('Invalid payload_v2.Ecdsa');
+    expect(server.calls.map((call) => call.methodName)).toEqual(['sign', 'sign']);
+  });
+
+  describe('MpcSetup against the stand-in', () => {
+    async function createMpcSetup(networkId: string): Promise<MpcSetup> {
+      const keyStore = new keyStores.InMemoryKeyStore();
+      await keyStore.setKey(networkId, SIGNER, keyPair);
+      const near = await connect({ networkId, nodeUrl: url, keyStore });
+      const setup = new MpcSetup({ masterAccountPrivateKey: keyPair.toString() });
+      Object.assign(setup as any, {
+        near,
+        keyStore,
+        networkId,
+        masterAccount: await near.account(SIGNER),
+        contractAccount: await near.account(CONTRACT),
+      });
+      return setup;
+    }
+
+    it('should accept a contract whose participants match', async () => {
+      const setup = await createMpcSetup('testnet');
+
+      await (setup as any).initializeContract(CONTRACT, participants, 2);
+
+      expect(server.calls).toHaveLength(0);
+    });
+
+    it('should detect participant drift', async () => {
+      server.setParticipants([{ ...participants[0], url: 'http://10.9.9.9:3000' }, participants[1]]);
+      const setup = await createMpcSetup('testnet');
+
+      await expect((setup as any).initializeContract(CONTRACT, participants, 2))
+        .rejects.toThrow('mpc-node-0.localnet URL mismatch');
+    });
+
+    it('should retry init after a block hash mismatch', async () => {
+      await server.stop();
+      server = new StandInRpcServer({ initialized: false });
+      server.addAccount(SIGNER, { publicKeys: [keyPair.getPublicKey().toString()] });
+      url = await server.start();
+      server.injectTxError('InvalidChain');
+      const setup = await createMpcSetup('testnet');
+
+      await (setup as any).initializeContract(CONTRACT, participants, 2);
+
+      expect(server.calls.map((call) => call.methodName)).toEqual(['init']);
+      const state = await rpc(url, 'query', {
+        request_type: 'call_function',
+        finality: 'final',
+        account_id: CONTRACT,
+        method_name: 'state',
+        args_base64: '',
+      });
+      expect(JSON.parse(Buffer.from(state.result.result).toString()).Running.participants.participants)
+        .toHaveLength(2);
+    });
+  });
+});
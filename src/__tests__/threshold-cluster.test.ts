@@ -0,0 +1,97 @@
+/**
+ * Simulated t-of-n MPC cluster unit tests
+ */
+
+import { InMemoryChainSignatures, InMemoryMPCService } from '../chain-signatures/in-memory';
+import { SimulatedMpcCluster } from '../chain-signatures/threshold-cluster';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { SignatureRequest } from '../types';
+
+const SEED = 'cluster-tests';
+const digest = 'ab'.repeat(32);
+
+function createCluster(overrides: Partial<ConstructorParameters<typeof SimulatedMpcCluster>[0]> = {}) {
+  return new SimulatedMpcCluster({ seed: SEED, participants: 3, threshold: 2, timeoutMs: 150, slowDelayMs: 30, ...overrides });
+}
+
+const request: SignatureRequest = {
+  nearAccount: 'alice.near',
+  chain: 'ethereum',
+  payload: digest,
+  derivationPath: 'ethereum-1',
+};
+
+describe('SimulatedMpcCluster', () => {
+  it('produces the same signatures as the seeded in-memory backend', async () => {
+    const cluster = createCluster();
+    const reference = new InMemoryMPCService(SEED);
+    const payload = Buffer.from(digest, 'hex');
+
+    const session = await cluster.signWithCluster('alice.near', 'ethereum-1', DOMAIN_SECP256K1, payload);
+    expect(session.signature).toEqual(reference.signWithDerivedKey('alice.near', 'ethereum-1', DOMAIN_SECP256K1, payload));
+    expect(session.participants).toEqual(['mpc-node-0', 'mpc-node-1']);
+
+    const edSession = await cluster.signWithCluster('alice.near', 'solana-1', DOMAIN_ED25519, payload);
+    expect(edSession.signature).toEqual(reference.signWithDerivedKey('alice.near', 'solana-1', DOMAIN_ED25519, payload));
+  });
+
+  it('signs with any threshold subset of healthy nodes', async () => {
+    const cluster = createCluster({ participants: ['a.localnet', 'b.localnet', 'c.localnet', 'd.localnet', 'e.localnet'], threshold: 3 });
+    const reference = await cluster.signWithCluster('alice.near', 'ethereum-1', DOMAIN_SECP256K1, Buffer.from(digest, 'hex'));
+
+    cluster.setNodeStatus('a.localnet', 'offline');
+    cluster.setNodeStatus('c.localnet', 'offline');
+    const session = await cluster.signWithCluster('alice.near', 'ethereum-1', DOMAIN_SECP256K1, Buffer.from(digest, 'hex'));
+
+    expect(session.participants).toEqual(['b.localnet', 'd.localnet', 'e.localnet']);
+    expect(session.unresponsive).toEqual(['a.localnet', 'c.localnet']);
+    expect(session.signature).toEqual(reference.signature);
+  });
+
+  it('reports participants through requestSignature', async () => {
+    const cluster = createCluster();
+    const chainSigs = new InMemoryChainSignatures({}, cluster);
+    cluster.setNodeStatus('mpc-node-0', 'offline');
+
+    const response = await chainSigs.requestSignature(request);
+
+    expect(response.participants).toEqual(['mpc-node-1', 'mpc-node-2']);
+    expect(await chainSigs.verifySignature(response, digest)).toBe(true);
+  });
+
+  it('waits for slow nodes and rejects byzantine shares', async () => {
+    const cluster = createCluster();
+    cluster.setNodeStatus('mpc-node-0', 'byzantine');
+    cluster.setNodeStatus('mpc-node-1', 'slow');
+
+    const session = await cluster.signWithCluster('alice.near', 'ethereum-1', DOMAIN_SECP256K1, Buffer.from(digest, 'hex'));
+
+    expect(session.participants).toEqual(['mpc-node-2', 'mpc-node-1']);
+    expect(session.rejected).toEqual(['mpc-node-0']);
+    expect(cluster.getHealthyNodeCount()).toBe(2);
+  });
+
+  it('times out below threshold', async () => {
+    const cluster = createCluster();
+    cluster.setNodeStatus('mpc-node-0', 'offline');
+    cluster.setNodeStatus('mpc-node-1', 'byzantine');
+
+    await expect(
+      cluster.signWithCluster('alice.near', 'ethereum-1', DOMAIN_SECP256K1, Buffer.from(digest, 'hex'))
+    ).rejects.toThrow('1 of 2 required shares (participants: mpc-node-2; rejected: mpc-node-1; unresponsive: mpc-node-0)');
+  });
+
+  it('treats nodes slower than the timeout as missing', async () => {
+    const cluster = createCluster({ slowDelayMs: 500 });
+    cluster.setNodeStatus('mpc-node-0', 'slow');
+    cluster.setNodeStatus('mpc-node-1', 'slow');
+
+    await expect(new InMemoryChainSignatures({}, cluster).requestSignature(request)).rejects.toThrow('timed out');
+  });
+
+  it('validates the cluster configuration', () => {
+    expect(() => createCluster({ threshold: 4 })).toThrow('Invalid threshold 4 for 3 participants');
+    expect(() => createCluster({ participants: ['a', 'a'] })).toThrow('Duplicate participant');
+    expect(() => createCluster().setNodeStatus('unknown', 'offline')).toThrow('Unknown participant: unknown');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * toMpcViemAccount unit tests
+ *
+ * The account is exercised with viem-shaped arguments; signatures are checked
+ * with ethers so the tests don't need viem installed. Where viem is installed, one
+ * test also signs through a real viem wallet client.
+ */
+
+import { Transaction, verifyMessage, verifyTypedData } from 'ethers';
+import { toMpcViemAccount, MpcViemAccount, ViemTypedDataDefinition } from '../chain-signatures/viem-account';
+import {
+  createLocalSignerSimulator as createSimulator,
+  signingKey,
+  SENDER,
+} from '../__fixtures__/local-signer-simulator';
+
+// The parts of viem used below; viem is not a dependency of this package
+interface Viem {
+  toAccount(account: MpcViemAccount): MpcViemAccount;
+  custom(provider: { request(args: unknown): Promise<unknown> }): unknown;
+  createWalletClient(config: { account: MpcViemAccount; transport: unknown }): {
+    signTypedData(typedData: ViemTypedDataDefinition): Promise<string>;
+  };
+  recoverTypedDataAddress(typedData: ViemTypedDataDefinition & { signature: string }): Promise<string>;
+}
+
+function loadViem(): Viem | undefined {
+  try {
+    return { ...require('viem'), ...require('viem/accounts') };
+  } catch {
+    return undefined;
+  }
+}
+
+const viem = loadViem();
+
+// EIP-712 example: Mail is the primary type, Person is referenced by it, and
+// Attachment is an unrelated second root that viem allows in `types`
+const MAIL: ViemTypedDataDefinition = {
+  domain: { name: 'Ether Mail', version: '1', chainId: 1, verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC' },
+  types: {
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' },
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person[]' },
+      { name: 'contents', type: 'string' },
+    ],
+    Attachment: [{ name: 'uri', type: 'string' }],
+  },
+  primaryType: 'Mail',
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: [{ name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' }],
+    contents: 'Hello, Bob!',
+  },
+};
+
+describe('toMpcViemAccount', () => {
+  it('should expose the derived address and uncompressed public key as a local account', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near', 'ethereum-1');
+
+    expect(account.type).toBe('local');
+    expect(account.source).toBe('custom');
+    expect(account.address).toBe(SENDER);
+    expect(account.publicKey).toBe(signingKey.publicKey);
+  });
+
+  it('should sign viem EIP-1559 transactions with the chain ID of the network', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near', undefined, { network: 'testnet' });
+
+    const raw = await account.signTransaction({
+      to: '0x000000000000000000000000000000000000dEaD',
+      nonce: 5,
+      gas: BigInt(21000),
+      value: BigInt(1),
+      maxFeePerGas: BigInt(2e9),
+      maxPriorityFeePerGas: BigInt(1e9),
+    });
+
+    const parsed = Transaction.from(raw);
+    expect(parsed.type).toBe(2);
+    expect(parsed.chainId).toBe(BigInt(11155111));
+    expect(parsed.from).toBe(SENDER);
+  });
+
+  it('should sign string and raw messages', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near');
+    const raw = new Uint8Array([1, 2, 3]);
+
+    expect(verifyMessage('hello', await account.signMessage({ message: 'hello' }))).toBe(SENDER);
+    expect(verifyMessage(raw, await account.signMessage({ message: { raw: '0x010203' } }))).toBe(SENDER);
+  });
+
+  it('should sign viem typed data', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near');
+    const domain = { name: 'Mail', version: '1', chainId: 1 };
+    const types = { Mail: [{ name: 'to', type: 'address' }] };
+    const message = { to: SENDER };
+
+    const signature = await account.signTypedData({ domain, types, primaryType: 'Mail', message });
+
+    expect(verifyTypedData(domain, types, message, signature)).toBe(SENDER);
+  });
+
+  it('should hash typed data for the given primaryType when types has several roots', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near');
+    const { Person, Mail } = MAIL.types;
+
+    const signature = await account.signTypedData(MAIL);
+
+    expect(verifyTypedData(MAIL.domain!, { Person: [...Person], Mail: [...Mail] }, MAIL.message, signature)).toBe(SENDER);
+    await expect(account.signTypedData({ ...MAIL, primaryType: 'Letter' })).rejects.toThrow(
+      'Typed data primaryType Letter is not defined in types'
+    );
+  });
+
+  (viem ? it : it.skip)('should sign typed data through a viem wallet client', async () => {
+    const { toAccount, custom, createWalletClient, recoverTypedDataAddress } = viem as Viem;
+    const account = toAccount(await toMpcViemAccount(createSimulator(), 'alice.near'));
+    const request = jest.fn();
+    const wallet = createWalletClient({ account, transport: custom({ request }) });
+
+    const signature = await wallet.signTypedData(MAIL);
+
+    expect(await recoverTypedDataAddress({ ...MAIL, signature })).toBe(SENDER);
+    // Local accounts sign without the transport
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should reject unsupported transaction types', async () => {
+    const account = await toMpcViemAccount(createSimulator(), 'alice.near');
+
+    await expect(
+      account.signTransaction({ type: 'eip4844', nonce: 0, gas: BigInt(21000) })
+    ).rejects.toThrow('Unsupported transaction type for MPC signing: eip4844');
+  });
+});
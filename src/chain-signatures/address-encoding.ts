@@ -0,0 +1,323 @@
+/**
+ * Address encoding primitives for MPC-derived public keys
+ *
+ * The v1.signer contract returns derived keys in NEAR format ("secp256k1:<base58>",
+ * 64 raw x,y bytes). Destination chains need those keys compressed, hashed and
+ * encoded in their own formats. This module holds the chain-agnostic building blocks:
+ * - Public key parsing (NEAR base58, hex, compressed/uncompressed)
+ * - HASH160 (RIPEMD-160 of SHA-256)
+ * - Base58 / Base58Check with a configurable alphabet
+ * - Bech32 (BIP-173) / Bech32m (BIP-350) and SegWit address encoding
+ * - Taproot output key tweaking (BIP-341 / BIP-86)
+ * - CashAddr (Bitcoin Cash)
+ *
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0173.mediawiki
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0350.mediawiki
+ * @see https://github.com/bitcoincashorg/bitcoincash.org/blob/master/spec/cashaddr.md
+ */
+
+import { SigningKey, sha256, ripemd160, getBytes } from 'ethers';
+
+export const BASE58_BITCOIN_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+export const BASE58_RIPPLE_ALPHABET = 'rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz';
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+export type Bech32Variant = 'bech32' | 'bech32m';
+
+/**
+ * Parse a public key string into raw bytes
+ *
+ * Accepts the NEAR key format ("secp256k1:<base58>" / "ed25519:<base58>"),
+ * plain base58, and hex (with or without 0x).
+ */
+export function parsePublicKey(publicKey: string): Uint8Array {
+  // 'secp256k1:' / 'ed25519:' prefixed keys (NEAR key format) are always base58
+  if (publicKey.includes(':')) {
+    return decodeBase58(publicKey.split(':')[1]);
+  }
+
+  const cleanKey = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
+  const isHex = /^[0-9a-fA-F]+$/.test(cleanKey) && cleanKey.length % 2 === 0 && cleanKey.length >= 64;
+  if (isHex) {
+    return new Uint8Array(Buffer.from(cleanKey, 'hex'));
+  }
+
+  return decodeBase58(cleanKey);
+}
+
+/**
+ * Compress a secp256k1 public key to its 33-byte SEC1 form (02/03 prefix + x)
+ *
+ * Handles 33-byte compressed, 65-byte uncompressed (04 prefix) and
+ * 64-byte raw x,y keys as returned by the contract.
+ */
+export function compressSecp256k1PublicKey(publicKey: string | Uint8Array): Uint8Array {
+  let keyBytes = typeof publicKey === 'string' ? parsePublicKey(publicKey) : publicKey;
+
+  if (keyBytes.length === 64) {
+    // Raw x,y coordinates: add the uncompressed SEC1 prefix
+    const prefixed = new Uint8Array(65);
+    prefixed[0] = 0x04;
+    prefixed.set(keyBytes, 1);
+    keyBytes = prefixed;
+  }
+
+  if (keyBytes.length !== 33 && keyBytes.length !== 65) {
+    throw new Error(`Unsupported secp256k1 public key length: ${keyBytes.length}`);
+  }
+
+  return getBytes(SigningKey.computePublicKey(keyBytes, true));
+}
+
+/**
+ * HASH160 = RIPEMD-160(SHA-256(data)), used by Bitcoin-family addresses
+ */
+export function hash160(data: Uint8Array): Uint8Array {
+  return getBytes(ripemd160(sha256(data)));
+}
+
+/**
+ * Encode bytes as base58 (leading zero bytes map to the alphabet's first character)
+ */
+export function encodeBase58(bytes: Uint8Array, alphabet: string = BASE58_BITCOIN_ALPHABET): string {
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let result = '';
+  while (value > BigInt(0)) {
+    const remainder = Number(value % BigInt(58));
+    value = value / BigInt(58);
+    result = alphabet[remainder] + result;
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    result = alphabet[0] + result;
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base58 string to bytes (leading alphabet[0] characters map to zero bytes)
+ */
+export function decodeBase58(str: string, alphabet: string = BASE58_BITCOIN_ALPHABET): Uint8Array {
+  let value = BigInt(0);
+  for (const char of str) {
+    const index = alphabet.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * BigInt(58) + BigInt(index);
+  }
+
+  let hex = value === BigInt(0) ? '' : value.toString(16);
+  if (hex.length % 2 === 1) {
+    hex = '0' + hex;
+  }
+
+  let leadingZeros = 0;
+  for (const char of str) {
+    if (char !== alphabet[0]) break;
+    leadingZeros++;
+  }
+
+  const body = Buffer.from(hex, 'hex');
+  const bytes = new Uint8Array(leadingZeros + body.length);
+  bytes.set(body, leadingZeros);
+  return bytes;
+}
+
+/**
+ * Encode a versioned payload as base58check
+ *
+ * checksum = first 4 bytes of SHA-256(SHA-256(version || payload))
+ * The version may be a single byte or a multi-byte prefix (e.g. XRPL X-addresses).
+ */
+export function encodeBase58Check(
+  version: number | Uint8Array,
+  payload: Uint8Array,
+  alphabet: string = BASE58_BITCOIN_ALPHABET
+): string {
+  const prefix = typeof version === 'number' ? new Uint8Array([version]) : version;
+  const versioned = new Uint8Array(prefix.length + payload.length);
+  versioned.set(prefix);
+  versioned.set(payload, prefix.length);
+
+  const checksum = getBytes(sha256(sha256(versioned))).slice(0, 4);
+
+  const data = new Uint8Array(versioned.length + 4);
+  data.set(versioned);
+  data.set(checksum, versioned.length);
+  return encodeBase58(data, alphabet);
+}
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= BECH32_GENERATOR[i];
+      }
+    }
+  }
+  return chk >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < hrp.length; i++) {
+    result.push(hrp.charCodeAt(i) >> 5);
+  }
+  result.push(0);
+  for (let i = 0; i < hrp.length; i++) {
+    result.push(hrp.charCodeAt(i) & 31);
+  }
+  return result;
+}
+
+/**
+ * Regroup a byte array between bit widths (8 -> 5 for bech32 data)
+ */
+export function convertBits(data: Uint8Array | number[], fromBits: number, toBits: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (const value of data) {
+    if (value < 0 || value >> fromBits !== 0) {
+      throw new Error(`Invalid value for ${fromBits}-bit conversion: ${value}`);
+    }
+    acc = (acc << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((acc >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((acc << (toBits - bits)) & maxValue);
+    }
+  } else if (bits >= fromBits || ((acc << (toBits - bits)) & maxValue)) {
+    throw new Error('Invalid padding in bit conversion');
+  }
+
+  return result;
+}
+
+/**
+ * Encode 5-bit data words as a BIP-173 bech32 (or BIP-350 bech32m) string
+ */
+export function encodeBech32(hrp: string, data: number[], variant: Bech32Variant = 'bech32'): string {
+  const values = [...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0];
+  const polymod = bech32Polymod(values) ^ (variant === 'bech32m' ? BECH32M_CONST : BECH32_CONST);
+
+  let result = hrp + '1';
+  for (const word of data) {
+    result += BECH32_CHARSET[word];
+  }
+  for (let i = 0; i < 6; i++) {
+    result += BECH32_CHARSET[(polymod >> (5 * (5 - i))) & 31];
+  }
+  return result;
+}
+
+/**
+ * Encode a witness program as a SegWit address
+ *
+ * Version 0 (bc1q... P2WPKH) uses bech32; versions 1-16 (bc1p... P2TR) use bech32m.
+ */
+export function encodeSegwitAddress(hrp: string, witnessVersion: number, program: Uint8Array): string {
+  if (witnessVersion < 0 || witnessVersion > 16) {
+    throw new Error(`Unsupported witness version: ${witnessVersion}`);
+  }
+  const variant: Bech32Variant = witnessVersion === 0 ? 'bech32' : 'bech32m';
+  return encodeBech32(hrp, [witnessVersion, ...convertBits(program, 8, 5, true)], variant);
+}
+
+/**
+ * BIP-340 tagged hash: SHA-256(SHA-256(tag) || SHA-256(tag) || data)
+ */
+export function taggedHash(tag: string, data: Uint8Array): Uint8Array {
+  const tagHash = getBytes(sha256(Buffer.from(tag, 'utf8')));
+  return getBytes(sha256(Buffer.concat([tagHash, tagHash, data])));
+}
+
+/**
+ * Compute the BIP-86 Taproot output key (x-only, 32 bytes) for a key-path-only output
+ *
+ * 1. P = lift_x(x(internal key)) - the even-Y point with the same x coordinate
+ * 2. t = taggedHash("TapTweak", x(P)) (no script tree)
+ * 3. Q = P + t*G, output key = x(Q)
+ */
+export function taprootTweakPublicKey(publicKey: string | Uint8Array): Uint8Array {
+  const compressed = compressSecp256k1PublicKey(publicKey);
+  const internalKey = compressed.slice(1);
+
+  const evenPoint = new Uint8Array(33);
+  evenPoint[0] = 0x02;
+  evenPoint.set(internalKey, 1);
+
+  const tweak = taggedHash('TapTweak', internalKey);
+  const tweakPoint = SigningKey.computePublicKey(tweak, true);
+  const outputKey = getBytes(SigningKey.addPoints(evenPoint, tweakPoint, true));
+
+  return outputKey.slice(1);
+}
+
+// CashAddr BCH code generators (40-bit checksum)
+const CASHADDR_GENERATOR = [
+  BigInt('0x98f2bc8e61'),
+  BigInt('0x79b76d99e2'),
+  BigInt('0xf33e5fb3c4'),
+  BigInt('0xae2eabe2a8'),
+  BigInt('0x1e4f43e470'),
+];
+
+function cashAddrPolymod(values: number[]): bigint {
+  let c = BigInt(1);
+  for (const value of values) {
+    const c0 = c >> BigInt(35);
+    c = ((c & BigInt('0x07ffffffff')) << BigInt(5)) ^ BigInt(value);
+    for (let i = 0; i < 5; i++) {
+      if ((c0 >> BigInt(i)) & BigInt(1)) {
+        c ^= CASHADDR_GENERATOR[i];
+      }
+    }
+  }
+  return c ^ BigInt(1);
+}
+
+/**
+ * Encode a 20-byte hash as a CashAddr address (e.g. bitcoincash:q...)
+ *
+ * @param prefix - Network prefix ("bitcoincash", "bchtest", "bchreg")
+ * @param type - 0 for P2PKH, 1 for P2SH
+ * @param hash - 160-bit public key or script hash
+ */
+export function encodeCashAddr(prefix: string, type: 0 | 1, hash: Uint8Array): string {
+  if (hash.length !== 20) {
+    throw new Error(`Unsupported CashAddr hash length: ${hash.length}`);
+  }
+
+  // Version byte: type in bits 3-6, size code 0 (160 bits) in bits 0-2
+  const payload = convertBits(Buffer.concat([Buffer.from([type << 3]), hash]), 8, 5, true);
+  const prefixData = Array.from(prefix).map((char) => char.charCodeAt(0) & 0x1f);
+  const polymod = cashAddrPolymod([...prefixData, 0, ...payload, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+  let result = prefix + ':';
+  for (const word of payload) {
+    result += BECH32_CHARSET[word];
+  }
+  for (let i = 0; i < 8; i++) {
+    result += BECH32_CHARSET[Number((polymod >> BigInt(5 * (7 - i))) & BigInt(31))];
+  }
+  return result;
+}
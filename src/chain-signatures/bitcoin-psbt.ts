@@ -0,0 +1,552 @@
+/**
+ * Bitcoin PSBT (BIP-174) parsing, sighash computation and finalization for MPC signing
+ *
+ * Inputs locked to the MPC-derived key are signed one by one:
+ * - P2WPKH: BIP143 (segwit v0) sighash, finalized as witness [DER || sighash type, pubkey]
+ * - P2TR key path: BIP341 sighash, finalized as witness [Schnorr signature (|| sighash type)].
+ *   The MPC secp256k1 domain signs ECDSA only, so the BIP340 signature under the
+ *   BIP86-tweaked key comes from an external signer
+ */
+
+import { createHash } from 'crypto';
+import { hash160, taggedHash, taprootTweakPublicKey } from './address-encoding';
+import { SIGHASH_ALL } from './signature-format';
+
+// BIP-174 key types used here
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_IN_NON_WITNESS_UTXO = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_SIGHASH_TYPE = 0x03;
+
+// Sighash type flags (BIP143 / BIP341)
+export const SIGHASH_DEFAULT = 0x00;
+const SIGHASH_NONE = 0x02;
+const SIGHASH_SINGLE = 0x03;
+const SIGHASH_ANYONECANPAY = 0x80;
+
+// Defined sighash types: ALL / NONE / SINGLE, each optionally with ANYONECANPAY;
+// BIP341 adds DEFAULT (0x00)
+const BIP143_SIGHASH_TYPES = [0x01, 0x02, 0x03, 0x81, 0x82, 0x83];
+const BIP341_SIGHASH_TYPES = [SIGHASH_DEFAULT, ...BIP143_SIGHASH_TYPES];
+
+export interface BitcoinTxInput {
+  /** Previous txid in internal (little-endian) byte order */
+  prevTxId: Uint8Array;
+  vout: number;
+  scriptSig: Uint8Array;
+  sequence: number;
+}
+
+export interface BitcoinTxOutput {
+  value: bigint;
+  script: Uint8Array;
+}
+
+export interface BitcoinTransaction {
+  version: number;
+  inputs: BitcoinTxInput[];
+  outputs: BitcoinTxOutput[];
+  locktime: number;
+}
+
+export interface PsbtInput {
+  /** Output being spent (from WITNESS_UTXO, or looked up in NON_WITNESS_UTXO) */
+  prevout?: BitcoinTxOutput;
+  sighashType?: number;
+}
+
+export interface Psbt {
+  tx: BitcoinTransaction;
+  inputs: PsbtInput[];
+}
+
+/**
+ * Parse a base64 or hex PSBT (version 0)
+ */
+export function parsePsbt(psbt: string): Psbt {
+  const isHex = /^[0-9a-fA-F]+$/.test(psbt) && psbt.length % 2 === 0;
+  const reader = new ByteReader(Buffer.from(psbt, isHex ? 'hex' : 'base64'));
+
+  if (!Buffer.from(reader.readBytes(5)).equals(PSBT_MAGIC)) {
+    throw new Error('Invalid PSBT: missing magic bytes');
+  }
+
+  let tx: BitcoinTransaction | undefined;
+  for (const { key, value } of readPsbtMap(reader)) {
+    if (key[0] === PSBT_GLOBAL_UNSIGNED_TX) {
+      tx = parseTransaction(value);
+    }
+  }
+  if (!tx) {
+    throw new Error('Invalid PSBT: missing unsigned transaction');
+  }
+
+  const inputs = tx.inputs.map((txInput, index) => {
+    const input: PsbtInput = {};
+    for (const { key, value } of readPsbtMap(reader)) {
+      switch (key[0]) {
+        case PSBT_IN_WITNESS_UTXO:
+          input.prevout = readOutput(new ByteReader(value));
+          break;
+        case PSBT_IN_NON_WITNESS_UTXO:
+          input.prevout = input.prevout ?? prevoutFromTransaction(value, txInput, index);
+          break;
+        case PSBT_IN_SIGHASH_TYPE:
+          input.sighashType = Buffer.from(value).readUInt32LE(0);
+          break;
+      }
+    }
+    return input;
+  });
+
+  // Output maps carry nothing needed for signing, but must be well-formed
+  for (let i = 0; i < tx.outputs.length; i++) {
+    readPsbtMap(reader);
+  }
+
+  return { tx, inputs };
+}
+
+/**
+ * Sighash a signature is requested for, per PSBT input
+ * - p2wpkh: BIP143 sighash, signed by the MPC (ECDSA)
+ * - p2tr: BIP341 key-path sighash, signed by an external BIP340 Schnorr signer
+ */
+export interface PsbtInputSighash {
+  index: number;
+  scriptType: 'p2wpkh' | 'p2tr';
+  sighash: Uint8Array;
+  sighashType: number;
+}
+
+/**
+ * Compute the sighash of every input, which must all be P2WPKH or P2TR (BIP86)
+ * outputs of the given key
+ *
+ * @param compressedPublicKey - 33-byte MPC-derived key the inputs are locked to
+ */
+export function computePsbtSighashes(psbt: Psbt, compressedPublicKey: Uint8Array): PsbtInputSighash[] {
+  const p2wpkh = Buffer.concat([Buffer.from([0x00, 0x14]), hash160(compressedPublicKey)]);
+  const p2tr = Buffer.concat([Buffer.from([0x51, 0x20]), taprootTweakPublicKey(compressedPublicKey)]);
+  const scriptCode = p2wpkhScriptCode(compressedPublicKey);
+
+  // BIP341 commits to the amount and script of every spent output
+  const prevouts = psbt.inputs.map((input, index) => {
+    if (!input.prevout) {
+      throw new Error(`PSBT input ${index} is missing its witness or non-witness UTXO`);
+    }
+    return input.prevout;
+  });
+
+  return prevouts.map((prevout, index) => {
+    const script = Buffer.from(prevout.script);
+    const requestedType = psbt.inputs[index].sighashType;
+
+    if (script.equals(p2tr)) {
+      const sighashType = requestedType ?? SIGHASH_DEFAULT;
+      assertSighashType(index, sighashType, BIP341_SIGHASH_TYPES);
+      return {
+        index,
+        scriptType: 'p2tr',
+        sighash: computeBip341Sighash(psbt.tx, index, prevouts, sighashType),
+        sighashType,
+      };
+    }
+    if (!script.equals(p2wpkh)) {
+      throw new Error(`PSBT input ${index} is not a P2WPKH or P2TR output of the derived key`);
+    }
+
+    const sighashType = requestedType ?? SIGHASH_ALL;
+    assertSighashType(index, sighashType, BIP143_SIGHASH_TYPES);
+    return {
+      index,
+      scriptType: 'p2wpkh',
+      sighash: computeBip143Sighash(psbt.tx, index, scriptCode, prevout.value, sighashType),
+      sighashType,
+    };
+  });
+}
+
+/**
+ * Finalize P2WPKH inputs with witness [signature || sighash type, pubkey] and
+ * serialize the network transaction
+ *
+ * @param signatures - DER signature with the sighash type byte appended, per input
+ */
+export function finalizeP2wpkhTransaction(
+  psbt: Psbt,
+  signatures: Uint8Array[],
+  compressedPublicKey: Uint8Array
+): { rawTransaction: string; txid: string } {
+  return finalizePsbtTransaction(psbt, signatures.map((signature) => [signature, compressedPublicKey]));
+}
+
+/**
+ * Attach one witness stack per input and serialize the network transaction
+ */
+export function finalizePsbtTransaction(
+  psbt: Psbt,
+  witnesses: Uint8Array[][]
+): { rawTransaction: string; txid: string } {
+  if (witnesses.length !== psbt.tx.inputs.length) {
+    throw new Error(`Expected ${psbt.tx.inputs.length} witnesses, got ${witnesses.length}`);
+  }
+
+  return {
+    rawTransaction: Buffer.from(serializeTransaction(psbt.tx, witnesses)).toString('hex'),
+    txid: computeTxId(psbt.tx),
+  };
+}
+
+/**
+ * Taproot key-path witness: the 64-byte Schnorr signature, with the sighash type
+ * appended unless it is SIGHASH_DEFAULT (BIP341)
+ */
+export function taprootKeyPathWitness(schnorrSignature: Uint8Array, sighashType: number): Uint8Array[] {
+  if (schnorrSignature.length !== 64) {
+    throw new Error(`Schnorr signature must be 64 bytes, got ${schnorrSignature.length}`);
+  }
+  return sighashType === SIGHASH_DEFAULT
+    ? [schnorrSignature]
+    : [Buffer.concat([schnorrSignature, Buffer.from([sighashType])])];
+}
+
+/**
+ * BIP143 sighash for a segwit v0 input
+ *
+ * @param scriptCode - For P2WPKH: OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+ */
+export function computeBip143Sighash(
+  tx: BitcoinTransaction,
+  inputIndex: number,
+  scriptCode: Uint8Array,
+  amount: bigint,
+  sighashType: number
+): Uint8Array {
+  const input = tx.inputs[inputIndex];
+  const baseType = sighashType & 0x1f;
+  const anyoneCanPay = (sighashType & SIGHASH_ANYONECANPAY) !== 0;
+  const zero = Buffer.alloc(32);
+
+  const hashPrevouts = anyoneCanPay ? zero : hash256(Buffer.concat(tx.inputs.map(serializeOutpoint)));
+  const hashSequence = anyoneCanPay || baseType === SIGHASH_SINGLE || baseType === SIGHASH_NONE
+    ? zero
+    : hash256(Buffer.concat(tx.inputs.map((i) => uint32LE(i.sequence))));
+
+  let hashOutputs: Uint8Array = zero;
+  if (baseType !== SIGHASH_SINGLE && baseType !== SIGHASH_NONE) {
+    hashOutputs = hash256(Buffer.concat(tx.outputs.map(serializeOutput)));
+  } else if (baseType === SIGHASH_SINGLE && inputIndex < tx.outputs.length) {
+    hashOutputs = hash256(serializeOutput(tx.outputs[inputIndex]));
+  }
+
+  return hash256(Buffer.concat([
+    uint32LE(tx.version),
+    hashPrevouts,
+    hashSequence,
+    serializeOutpoint(input),
+    varSlice(scriptCode),
+    uint64LE(amount),
+    uint32LE(input.sequence),
+    hashOutputs,
+    uint32LE(tx.locktime),
+    uint32LE(sighashType),
+  ]));
+}
+
+/**
+ * BIP341 sighash for a Taproot key-path input (no annex)
+ *
+ * @param prevouts - The outputs spent by every input, in input order
+ */
+export function computeBip341Sighash(
+  tx: BitcoinTransaction,
+  inputIndex: number,
+  prevouts: BitcoinTxOutput[],
+  sighashType: number = SIGHASH_DEFAULT
+): Uint8Array {
+  if (prevouts.length !== tx.inputs.length) {
+    throw new Error('BIP341 sighash requires the spent output of every input');
+  }
+
+  const baseType = sighashType & 0x03;
+  const anyoneCanPay = (sighashType & SIGHASH_ANYONECANPAY) !== 0;
+  const parts: Uint8Array[] = [
+    Buffer.from([0x00, sighashType]),
+    uint32LE(tx.version),
+    uint32LE(tx.locktime),
+  ];
+
+  if (!anyoneCanPay) {
+    parts.push(
+      sha256(Buffer.concat(tx.inputs.map(serializeOutpoint))),
+      sha256(Buffer.concat(prevouts.map((p) => uint64LE(p.value)))),
+      sha256(Buffer.concat(prevouts.map((p) => varSlice(p.script)))),
+      sha256(Buffer.concat(tx.inputs.map((i) => uint32LE(i.sequence))))
+    );
+  }
+  if (baseType !== SIGHASH_NONE && baseType !== SIGHASH_SINGLE) {
+    parts.push(sha256(Buffer.concat(tx.outputs.map(serializeOutput))));
+  }
+
+  // spend_type: key path, no annex
+  parts.push(Buffer.from([0x00]));
+
+  if (anyoneCanPay) {
+    const input = tx.inputs[inputIndex];
+    parts.push(
+      serializeOutpoint(input),
+      uint64LE(prevouts[inputIndex].value),
+      varSlice(prevouts[inputIndex].script),
+      uint32LE(input.sequence)
+    );
+  } else {
+    parts.push(uint32LE(inputIndex));
+  }
+
+  if (baseType === SIGHASH_SINGLE) {
+    if (inputIndex >= tx.outputs.length) {
+      throw new Error(`SIGHASH_SINGLE input ${inputIndex} has no matching output`);
+    }
+    parts.push(sha256(serializeOutput(tx.outputs[inputIndex])));
+  }
+
+  return taggedHash('TapSighash', Buffer.concat(parts));
+}
+
+/**
+ * P2WPKH scriptCode for BIP143: OP_DUP OP_HASH160 <HASH160(pubkey)> OP_EQUALVERIFY OP_CHECKSIG
+ */
+export function p2wpkhScriptCode(compressedPublicKey: Uint8Array): Uint8Array {
+  return Buffer.concat([
+    Buffer.from('76a914', 'hex'),
+    hash160(compressedPublicKey),
+    Buffer.from('88ac', 'hex'),
+  ]);
+}
+
+/**
+ * Serialize a transaction; with witnesses uses the BIP144 marker/flag encoding
+ */
+export function serializeTransaction(tx: BitcoinTransaction, witnesses?: Uint8Array[][]): Uint8Array {
+  const hasWitness = !!witnesses && witnesses.some((stack) => stack.length > 0);
+  const parts: Uint8Array[] = [uint32LE(tx.version)];
+
+  if (hasWitness) {
+    parts.push(Buffer.from([0x00, 0x01]));
+  }
+  parts.push(varInt(tx.inputs.length));
+  for (const input of tx.inputs) {
+    parts.push(serializeOutpoint(input), varSlice(input.scriptSig), uint32LE(input.sequence));
+  }
+  parts.push(varInt(tx.outputs.length), ...tx.outputs.map(serializeOutput));
+
+  if (hasWitness) {
+    for (const stack of witnesses!) {
+      parts.push(varInt(stack.length), ...stack.map(varSlice));
+    }
+  }
+  parts.push(uint32LE(tx.locktime));
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Transaction id (display byte order) of a transaction
+ */
+export function computeTxId(tx: BitcoinTransaction): string {
+  return Buffer.from(hash256(serializeTransaction(tx))).reverse().toString('hex');
+}
+
+/**
+ * Parse a serialized transaction (legacy or BIP144 segwit encoding)
+ */
+export function parseTransaction(bytes: Uint8Array): BitcoinTransaction {
+  const reader = new ByteReader(bytes);
+  const version = reader.readUInt32();
+
+  let segwit = false;
+  if (reader.peek() === 0x00) {
+    reader.readBytes(2);
+    segwit = true;
+  }
+
+  const inputs: BitcoinTxInput[] = [];
+  const inputCount = reader.readVarInt();
+  for (let i = 0; i < inputCount; i++) {
+    inputs.push({
+      prevTxId: reader.readBytes(32),
+      vout: reader.readUInt32(),
+      scriptSig: reader.readVarSlice(),
+      sequence: reader.readUInt32(),
+    });
+  }
+
+  const outputs: BitcoinTxOutput[] = [];
+  const outputCount = reader.readVarInt();
+  for (let i = 0; i < outputCount; i++) {
+    outputs.push(readOutput(reader));
+  }
+
+  if (segwit) {
+    for (let i = 0; i < inputCount; i++) {
+      const items = reader.readVarInt();
+      for (let j = 0; j < items; j++) {
+        reader.readVarSlice();
+      }
+    }
+  }
+
+  return { version, inputs, outputs, locktime: reader.readUInt32() };
+}
+
+function assertSighashType(index: number, sighashType: number, allowed: number[]): void {
+  if (!allowed.includes(sighashType)) {
+    throw new Error(
+      `PSBT input ${index} has unsupported sighash type 0x${sighashType.toString(16)} ` +
+      `(expected one of ${allowed.map((type) => '0x' + type.toString(16).padStart(2, '0')).join(', ')})`
+    );
+  }
+}
+
+function prevoutFromTransaction(bytes: Uint8Array, input: BitcoinTxInput, index: number): BitcoinTxOutput {
+  const prevTx = parseTransaction(bytes);
+  const prevTxId = hash256(serializeTransaction(prevTx));
+  if (!Buffer.from(prevTxId).equals(Buffer.from(input.prevTxId))) {
+    throw new Error(`Invalid PSBT: non-witness UTXO of input ${index} does not match its txid`);
+  }
+  const prevout = prevTx.outputs[input.vout];
+  if (!prevout) {
+    throw new Error(`Invalid PSBT: input ${index} spends missing output ${input.vout}`);
+  }
+  return prevout;
+}
+
+function readPsbtMap(reader: ByteReader): Array<{ key: Uint8Array; value: Uint8Array }> {
+  const entries: Array<{ key: Uint8Array; value: Uint8Array }> = [];
+  for (;;) {
+    const key = reader.readVarSlice();
+    if (key.length === 0) {
+      return entries;
+    }
+    entries.push({ key, value: reader.readVarSlice() });
+  }
+}
+
+function readOutput(reader: ByteReader): BitcoinTxOutput {
+  return { value: reader.readUInt64(), script: reader.readVarSlice() };
+}
+
+function serializeOutpoint(input: BitcoinTxInput): Uint8Array {
+  return Buffer.concat([input.prevTxId, uint32LE(input.vout)]);
+}
+
+function serializeOutput(output: BitcoinTxOutput): Uint8Array {
+  return Buffer.concat([uint64LE(output.value), varSlice(output.script)]);
+}
+
+function sha256(data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(data).digest());
+}
+
+function hash256(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+function uint32LE(value: number): Uint8Array {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value >>> 0);
+  return buf;
+}
+
+function uint64LE(value: bigint): Uint8Array {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return buf;
+}
+
+function varInt(value: number): Uint8Array {
+  if (value < 0xfd) {
+    return Buffer.from([value]);
+  }
+  if (value <= 0xffff) {
+    const buf = Buffer.alloc(3);
+    buf[0] = 0xfd;
+    buf.writeUInt16LE(value, 1);
+    return buf;
+  }
+  const buf = Buffer.alloc(5);
+  buf[0] = 0xfe;
+  buf.writeUInt32LE(value, 1);
+  return buf;
+}
+
+function varSlice(data: Uint8Array): Uint8Array {
+  return Buffer.concat([varInt(data.length), data]);
+}
+
+/**
+ * Cursor over a byte buffer with bounds checks
+ */
+class ByteReader {
+  private offset = 0;
+  private readonly buf: Buffer;
+
+  constructor(bytes: Uint8Array) {
+    this.buf = Buffer.from(bytes);
+  }
+
+  peek(): number {
+    this.ensure(1);
+    return this.buf[this.offset];
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const bytes = new Uint8Array(this.buf.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return bytes;
+  }
+
+  readUInt32(): number {
+    this.ensure(4);
+    const value = this.buf.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readUInt64(): bigint {
+    this.ensure(8);
+    const value = this.buf.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  readVarInt(): number {
+    const first = this.readBytes(1)[0];
+    if (first < 0xfd) {
+      return first;
+    }
+    if (first === 0xfd) {
+      this.ensure(2);
+      const value = this.buf.readUInt16LE(this.offset);
+      this.offset += 2;
+      return value;
+    }
+    if (first === 0xfe) {
+      return this.readUInt32();
+    }
+    return Number(this.readUInt64());
+  }
+
+  readVarSlice(): Uint8Array {
+    return this.readBytes(this.readVarInt());
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buf.length) {
+      throw new Error('Unexpected end of data');
+    }
+  }
+}
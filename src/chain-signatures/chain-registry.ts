@@ -0,0 +1,48 @@
+/**
+ * Chain adapter registry
+ * 
+ * Single source of truth for per-chain behaviour (domain, address encoding,
+ * payload hashing, signature and tx-hash formats). Built-in chains are
+ * registered on import; consumer packages add chains with registerChain().
+ * 
+ * @example
+ * import { registerChain, createEvmChainAdapter } from '@near-sandbox/cross-chain-simulator';
+ * registerChain(createEvmChainAdapter('base'));
+ * await client.deriveAddress('alice.near', 'base');
+ */
+
+import { ChainAdapter, SupportedChain } from '../types';
+import { BUILT_IN_CHAIN_ADAPTERS } from './chains';
+
+const registry: Map<SupportedChain, ChainAdapter> = new Map();
+
+/**
+ * Register a chain adapter. Registering an existing chain replaces its adapter,
+ * which lets consumers override built-in behaviour.
+ */
+export function registerChain(adapter: ChainAdapter): void {
+  registry.set(adapter.chain, adapter);
+}
+
+/**
+ * Get the adapter for a chain
+ * @throws if no adapter is registered for the chain
+ */
+export function getChainAdapter(chain: SupportedChain): ChainAdapter {
+  const adapter = registry.get(chain);
+  if (!adapter) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return adapter;
+}
+
+/**
+ * List all registered chain names
+ */
+export function getRegisteredChains(): SupportedChain[] {
+  return Array.from(registry.keys());
+}
+
+for (const adapter of BUILT_IN_CHAIN_ADAPTERS) {
+  registerChain(adapter);
+}
@@ -0,0 +1,120 @@
+/**
+ * Bitcoin chain adapter
+ * 
+ * Supports the four standard single-key script types from the same MPC-derived key:
+ * p2pkh, p2sh-p2wpkh, p2wpkh (default) and p2tr (BIP-86 key-path only).
+ * The encoders are parameterized by network constants so Bitcoin forks (Litecoin) reuse them.
+ */
+
+import { ChainAdapter, ChainNetwork, BitcoinAddressType } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import {
+  compressSecp256k1PublicKey,
+  hash160,
+  encodeSegwitAddress,
+  encodeBase58Check,
+  taprootTweakPublicKey,
+} from '../address-encoding';
+import { toDerSignatureHex, assertSecp256k1Signature, SIGHASH_ALL } from '../signature-format';
+import { hashPrehashedOrSha256, hexTxHash, derSignatureFormats } from './common';
+
+/**
+ * Address constants for one network of a Bitcoin-derived chain
+ */
+export interface UtxoNetworkParams {
+  bech32Hrp: string;
+  p2pkhVersion: number;
+  p2shVersion: number;
+}
+
+// Bitcoin: bc1... / 1... / 3... on mainnet, tb1... / bcrt1... / m,n... / 2... on test networks
+const BITCOIN_NETWORKS: Record<ChainNetwork, UtxoNetworkParams> = {
+  mainnet: { bech32Hrp: 'bc', p2pkhVersion: 0x00, p2shVersion: 0x05 },
+  testnet: { bech32Hrp: 'tb', p2pkhVersion: 0x6f, p2shVersion: 0xc4 },
+  regtest: { bech32Hrp: 'bcrt', p2pkhVersion: 0x6f, p2shVersion: 0xc4 },
+};
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+/**
+ * P2WPKH witness program script: OP_0 PUSH20 <HASH160(pubkey)>
+ * Also used as the P2SH redeem script for nested SegWit
+ */
+export function p2wpkhScript(pubKeyHash: Uint8Array): Uint8Array {
+  return Buffer.concat([Buffer.from([0x00, 0x14]), pubKeyHash]);
+}
+
+/**
+ * Convert MPC public key to a Bitcoin-family address of the given script type
+ *
+ * - p2pkh: base58check(version || HASH160(compressed key))
+ * - p2sh-p2wpkh: base58check(p2sh version || HASH160(0x0014 || HASH160(compressed key)))
+ * - p2wpkh (BIP-173): bech32(hrp, v0, HASH160(compressed key))
+ * - p2tr (BIP-86): bech32m(hrp, v1, x(P + taggedHash("TapTweak", x(P))*G))
+ */
+export function toUtxoAddress(publicKey: string, params: UtxoNetworkParams, addressType: BitcoinAddressType): string {
+  const compressed = compressSecp256k1PublicKey(publicKey);
+  const pubKeyHash = hash160(compressed);
+
+  switch (addressType) {
+    case 'p2pkh':
+      return encodeBase58Check(params.p2pkhVersion, pubKeyHash);
+    case 'p2sh-p2wpkh':
+      return encodeBase58Check(params.p2shVersion, hash160(p2wpkhScript(pubKeyHash)));
+    case 'p2wpkh':
+      return encodeSegwitAddress(params.bech32Hrp, 0, pubKeyHash);
+    case 'p2tr':
+      return encodeSegwitAddress(params.bech32Hrp, 1, taprootTweakPublicKey(compressed));
+    default:
+      throw new Error(`Unsupported address type: ${addressType}`);
+  }
+}
+
+/**
+ * Convert MPC public key to a Bitcoin address of the given script type
+ */
+export function toBitcoinAddress(publicKey: string, network: ChainNetwork, addressType: BitcoinAddressType): string {
+  return toUtxoAddress(publicKey, BITCOIN_NETWORKS[network], addressType);
+}
+
+/**
+ * Build the scriptPubKey (hex) that locks funds to the derived address
+ * (identical across Bitcoin, Litecoin and Bitcoin Cash)
+ *
+ * - p2pkh: OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+ * - p2sh-p2wpkh: OP_HASH160 <20> OP_EQUAL
+ * - p2wpkh: OP_0 <20>
+ * - p2tr: OP_1 <32>
+ */
+export function toBitcoinScriptPubKey(publicKey: string, addressType: BitcoinAddressType): string {
+  const compressed = compressSecp256k1PublicKey(publicKey);
+  const pubKeyHash = hash160(compressed);
+
+  switch (addressType) {
+    case 'p2pkh':
+      return `76a914${hex(pubKeyHash)}88ac`;
+    case 'p2sh-p2wpkh':
+      return `a914${hex(hash160(p2wpkhScript(pubKeyHash)))}87`;
+    case 'p2wpkh':
+      return hex(p2wpkhScript(pubKeyHash));
+    case 'p2tr':
+      return `5120${hex(taprootTweakPublicKey(compressed))}`;
+    default:
+      throw new Error(`Unsupported address type: ${addressType}`);
+  }
+}
+
+export const bitcoinAdapter: ChainAdapter = {
+  chain: 'bitcoin',
+  domainId: DOMAIN_SECP256K1,
+  addressTypes: ['p2pkh', 'p2sh-p2wpkh', 'p2wpkh', 'p2tr'],
+  encodeAddress: (publicKey, { network, addressType = 'p2wpkh' }) => ({
+    address: toBitcoinAddress(publicKey, network, addressType),
+    addressType,
+    scriptPubKey: toBitcoinScriptPubKey(publicKey, addressType),
+  }),
+  hashPayload: hashPrehashedOrSha256,
+  formatSignature: (signature) => toDerSignatureHex(assertSecp256k1Signature(signature)),
+  formatSignatures: derSignatureFormats(SIGHASH_ALL),
+  formatTxHash: hexTxHash(''),
+};
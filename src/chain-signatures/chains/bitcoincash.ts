@@ -0,0 +1,46 @@
+/**
+ * Bitcoin Cash chain adapter
+ * 
+ * Addresses are CashAddr P2PKH ("bitcoincash:q..."). Inputs are signed over the
+ * replay-protected FORKID sighash, so signatures carry SIGHASH_ALL | SIGHASH_FORKID (0x41).
+ */
+
+import { ChainAdapter, ChainNetwork } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { compressSecp256k1PublicKey, hash160, encodeCashAddr } from '../address-encoding';
+import { toDerSignatureWithSighash, assertSecp256k1Signature, SIGHASH_ALL } from '../signature-format';
+import { toBitcoinScriptPubKey } from './bitcoin';
+import { hashForkIdSighash, hexTxHash, derSignatureFormats, SIGHASH_FORKID } from './common';
+
+// CashAddr network prefixes
+const CASHADDR_PREFIX: Record<ChainNetwork, string> = {
+  mainnet: 'bitcoincash',
+  testnet: 'bchtest',
+  regtest: 'bchreg',
+};
+
+// SIGHASH_ALL | SIGHASH_FORKID (0x41)
+const BCH_SIGHASH_ALL_FORKID = SIGHASH_ALL | SIGHASH_FORKID;
+
+/**
+ * Convert MPC public key to a Bitcoin Cash CashAddr P2PKH address
+ */
+export function toBitcoinCashAddress(publicKey: string, network: ChainNetwork): string {
+  const pubKeyHash = hash160(compressSecp256k1PublicKey(publicKey));
+  return encodeCashAddr(CASHADDR_PREFIX[network], 0, pubKeyHash);
+}
+
+export const bitcoinCashAdapter: ChainAdapter = {
+  chain: 'bitcoincash',
+  domainId: DOMAIN_SECP256K1,
+  encodeAddress: (publicKey, { network }) => ({
+    address: toBitcoinCashAddress(publicKey, network),
+    addressType: 'p2pkh',
+    scriptPubKey: toBitcoinScriptPubKey(publicKey, 'p2pkh'),
+  }),
+  hashPayload: hashForkIdSighash,
+  formatSignature: (signature) =>
+    toDerSignatureWithSighash(assertSecp256k1Signature(signature), BCH_SIGHASH_ALL_FORKID).serialized,
+  formatSignatures: derSignatureFormats(BCH_SIGHASH_ALL_FORKID),
+  formatTxHash: hexTxHash(''),
+};
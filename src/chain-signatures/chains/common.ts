@@ -0,0 +1,184 @@
+/**
+ * Shared payload hashing, signature format and tx-hash rules for chain adapters
+ */
+
+import { createHash } from 'crypto';
+import { keccak256, getBytes } from 'ethers';
+import { Signature, FormattedSignatures } from '../../types';
+import { encodeBase58 } from '../address-encoding';
+import {
+  assertSecp256k1Signature,
+  toEvmSignatureParts,
+  toDerSignatureWithSighash,
+  toCompactSignatureHex,
+} from '../signature-format';
+
+/**
+ * Default ECDSA payload rule: a 32-byte hex payload is treated as an existing prehash,
+ * anything else is hex-decoded and SHA-256 hashed. Non-hex or odd-length input is rejected.
+ */
+export function hashPrehashedOrSha256(payload: string): Uint8Array {
+  // If payload is already 32 bytes (64 hex chars or 66 with 0x), use as-is
+  const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
+
+  if (cleanPayload.length === 64 && /^[0-9a-fA-F]+$/.test(cleanPayload)) {
+    // Already a 32-byte hash
+    return new Uint8Array(Buffer.from(cleanPayload, 'hex'));
+  }
+
+  assertHexPayload(cleanPayload);
+
+  // Hash the payload to 32 bytes using SHA-256
+  const hash = createHash('sha256')
+    .update(Buffer.from(cleanPayload, 'hex'))
+    .digest();
+
+  return new Uint8Array(hash);
+}
+
+/**
+ * BIP143 payload rule (SegWit v0 sighash, used by Litecoin):
+ * a 32-byte hex payload is treated as an existing sighash, anything else is the
+ * hex-encoded BIP143 preimage and is double-SHA-256 hashed.
+ * 
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0143.mediawiki
+ */
+export function hashBip143Sighash(payload: string): Uint8Array {
+  const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
+
+  if (cleanPayload.length === 64 && /^[0-9a-fA-F]+$/.test(cleanPayload)) {
+    return new Uint8Array(Buffer.from(cleanPayload, 'hex'));
+  }
+
+  assertSighashPreimage(cleanPayload);
+
+  const once = createHash('sha256').update(Buffer.from(cleanPayload, 'hex')).digest();
+  return new Uint8Array(createHash('sha256').update(once).digest());
+}
+
+// SIGHASH_FORKID flag required by Bitcoin Cash since the UAHF
+export const SIGHASH_FORKID = 0x40;
+
+/**
+ * Bitcoin Cash FORKID payload rule: the preimage follows BIP143 but its trailing
+ * 4-byte sighash type must carry SIGHASH_FORKID (e.g. 0x41 = ALL | FORKID).
+ * 
+ * @see https://github.com/bitcoincashorg/bitcoincash.org/blob/master/spec/replay-protected-sighash.md
+ */
+export function hashForkIdSighash(payload: string): Uint8Array {
+  const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
+
+  if (cleanPayload.length > 64) {
+    // Validate before parseInt, which would read a non-hex or misaligned tail as a hash type
+    assertSighashPreimage(cleanPayload);
+    // nHashType is the last 4 bytes of the preimage, little-endian
+    const hashType = parseInt(cleanPayload.slice(-8, -6), 16);
+    if (!(hashType & SIGHASH_FORKID)) {
+      throw new Error(`Bitcoin Cash sighash type must include SIGHASH_FORKID, got 0x${hashType.toString(16)}`);
+    }
+  }
+
+  return hashBip143Sighash(payload);
+}
+
+/**
+ * Ethereum-style ECDSA payload rule: a 32-byte hex payload is treated as an existing prehash,
+ * anything else is hex-decoded and Keccak-256 hashed (EVM chains and ethsecp256k1 chains
+ * such as Injective/Evmos).
+ */
+export function hashPrehashedOrKeccak256(payload: string): Uint8Array {
+  const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
+
+  if (cleanPayload.length === 64 && /^[0-9a-fA-F]+$/.test(cleanPayload)) {
+    return new Uint8Array(Buffer.from(cleanPayload, 'hex'));
+  }
+
+  assertHexPayload(cleanPayload);
+  return getBytes(keccak256(Buffer.from(cleanPayload, 'hex')));
+}
+
+/**
+ * EdDSA payload rule: the hex-encoded message is signed as-is (no prehash)
+ * The contract accepts 32-1232 byte messages for EdDSA domains
+ */
+export function decodeRawMessage(payload: string): Uint8Array {
+  const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
+
+  if (cleanPayload.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(cleanPayload)) {
+    throw new Error('Ed25519 payload must be hex-encoded message bytes');
+  }
+
+  const bytes = new Uint8Array(Buffer.from(cleanPayload, 'hex'));
+  if (bytes.length < 32 || bytes.length > 1232) {
+    throw new Error(`Ed25519 payload must be 32-1232 bytes, got ${bytes.length}`);
+  }
+
+  return bytes;
+}
+
+/**
+ * EVM-style structured signatures: r/s/v/yParity (+ 65-byte hex) and compact
+ */
+export function evmSignatureFormats(signature: Signature): FormattedSignatures {
+  const secp = assertSecp256k1Signature(signature);
+  return {
+    evm: toEvmSignatureParts(secp),
+    compact: toCompactSignatureHex(secp),
+  };
+}
+
+/**
+ * Bitcoin-style structured signatures: DER + sighash byte and compact
+ */
+export function derSignatureFormats(sighashType: number): (signature: Signature) => FormattedSignatures {
+  return (signature: Signature) => {
+    const secp = assertSecp256k1Signature(signature);
+    return {
+      der: toDerSignatureWithSighash(secp, sighashType),
+      compact: toCompactSignatureHex(secp),
+    };
+  };
+}
+
+/**
+ * Compact-only structured signatures (Cosmos SDK secp256k1 accounts)
+ */
+export function compactSignatureFormats(signature: Signature): FormattedSignatures {
+  return { compact: toCompactSignatureHex(assertSecp256k1Signature(signature)) };
+}
+
+/**
+ * Hex tx id: prefix + SHA-256(seed) (e.g. "0x..." for EVM, bare hex for bitcoin,
+ * uppercase bare hex for Cosmos SDK chains and XRPL)
+ */
+export function hexTxHash(prefix: string, uppercase: boolean = false): (seed: string) => string {
+  return (seed: string) => {
+    const hash = createHash('sha256').update(seed).digest('hex');
+    return prefix + (uppercase ? hash.toUpperCase() : hash);
+  };
+}
+
+/**
+ * Base58 tx id over a SHA-256 (32-byte, NEAR) or SHA-512 (64-byte, Solana signature) digest
+ */
+export function base58TxHash(algorithm: 'sha256' | 'sha512'): (seed: string) => string {
+  return (seed: string) => encodeBase58(createHash(algorithm).update(seed).digest());
+}
+
+/**
+ * Buffer.from(payload, 'hex') silently stops at the first non-hex character,
+ * so payloads are checked before they are hashed
+ */
+function assertSighashPreimage(cleanPayload: string): void {
+  if (cleanPayload.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(cleanPayload)) {
+    throw new Error('Sighash preimage must be hex-encoded');
+  }
+}
+
+function assertHexPayload(cleanPayload: string): void {
+  if (cleanPayload.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(cleanPayload)) {
+    throw new Error(
+      'Payload must be hex-encoded bytes (even length, 0-9a-f); pass encoding "utf8" or "base64" for other input'
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Cosmos SDK chain adapters (Cosmos Hub, Osmosis, Injective, Evmos, and consumer-registered zones)
+ * 
+ * Two address derivations exist in the Cosmos ecosystem:
+ * - secp256k1: bech32(hrp, RIPEMD-160(SHA-256(compressed key)))
+ * - ethsecp256k1 (Injective, Evmos): bech32(hrp, keccak-derived 20-byte Ethereum address)
+ */
+
+import { getBytes } from 'ethers';
+import { ChainAdapter, SupportedChain } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { compressSecp256k1PublicKey, hash160, encodeBech32, convertBits } from '../address-encoding';
+import { toCompactSignatureHex, toEvmSignatureHex, assertSecp256k1Signature } from '../signature-format';
+import { toEvmAddress } from './evm';
+import {
+  hashPrehashedOrSha256,
+  hashPrehashedOrKeccak256,
+  hexTxHash,
+  evmSignatureFormats,
+  compactSignatureFormats,
+} from './common';
+
+export type CosmosKeyType = 'secp256k1' | 'ethsecp256k1';
+
+export interface CosmosChainAdapterOptions {
+  chain: SupportedChain;
+  /** Default bech32 HRP (e.g. "cosmos", "osmo", "inj") */
+  hrp: string;
+  /** Defaults to 'secp256k1' */
+  keyType?: CosmosKeyType;
+}
+
+/**
+ * Convert MPC public key to a Cosmos bech32 account address
+ */
+export function toCosmosAddress(publicKey: string, hrp: string, keyType: CosmosKeyType = 'secp256k1'): string {
+  const accountBytes = keyType === 'ethsecp256k1'
+    ? getBytes(toEvmAddress(publicKey))
+    : hash160(compressSecp256k1PublicKey(publicKey));
+  return encodeBech32(hrp, convertBits(accountBytes, 8, 5, true));
+}
+
+/**
+ * Create an adapter for a Cosmos SDK chain
+ * 
+ * @example
+ * registerChain(createCosmosChainAdapter({ chain: 'celestia', hrp: 'celestia' }));
+ */
+export function createCosmosChainAdapter(options: CosmosChainAdapterOptions): ChainAdapter {
+  const keyType = options.keyType || 'secp256k1';
+  const isEthStyle = keyType === 'ethsecp256k1';
+
+  return {
+    chain: options.chain,
+    domainId: DOMAIN_SECP256K1,
+    hrp: options.hrp,
+    encodeAddress: (publicKey, { hrp = options.hrp }) => ({
+      address: toCosmosAddress(publicKey, hrp, keyType),
+      hrp,
+    }),
+    hashPayload: isEthStyle ? hashPrehashedOrKeccak256 : hashPrehashedOrSha256,
+    formatSignature: (signature) => isEthStyle
+      ? toEvmSignatureHex(assertSecp256k1Signature(signature))
+      : toCompactSignatureHex(assertSecp256k1Signature(signature)),
+    formatSignatures: isEthStyle ? evmSignatureFormats : compactSignatureFormats,
+    formatTxHash: hexTxHash('', true),
+  };
+}
+
+export const cosmosHubAdapter = createCosmosChainAdapter({ chain: 'cosmoshub', hrp: 'cosmos' });
+export const osmosisAdapter = createCosmosChainAdapter({ chain: 'osmosis', hrp: 'osmo' });
+export const injectiveAdapter = createCosmosChainAdapter({ chain: 'injective', hrp: 'inj', keyType: 'ethsecp256k1' });
+export const evmosAdapter = createCosmosChainAdapter({ chain: 'evmos', hrp: 'evmos', keyType: 'ethsecp256k1' });
@@ -0,0 +1,39 @@
+/**
+ * Dogecoin chain adapter
+ * 
+ * Dogecoin has no native SegWit, so addresses are legacy P2PKH.
+ */
+
+import { ChainAdapter, ChainNetwork } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { compressSecp256k1PublicKey, hash160, encodeBase58Check } from '../address-encoding';
+import { toDerSignatureHex, assertSecp256k1Signature, SIGHASH_ALL } from '../signature-format';
+import { hashPrehashedOrSha256, hexTxHash, derSignatureFormats } from './common';
+
+// Dogecoin P2PKH version bytes (mainnet "D", testnet "n", regtest "m"/"n")
+const DOGECOIN_P2PKH_VERSION: Record<ChainNetwork, number> = {
+  mainnet: 0x1e,
+  testnet: 0x71,
+  regtest: 0x6f,
+};
+
+/**
+ * Convert MPC public key to a Dogecoin P2PKH address
+ *
+ * base58check(version || HASH160(compressed key)). On mainnet (0x1e) it starts with "D",
+ * on testnet (0x71) with "n".
+ */
+export function toDogecoinAddress(publicKey: string, network: ChainNetwork): string {
+  const pubKeyHash = hash160(compressSecp256k1PublicKey(publicKey));
+  return encodeBase58Check(DOGECOIN_P2PKH_VERSION[network], pubKeyHash);
+}
+
+export const dogecoinAdapter: ChainAdapter = {
+  chain: 'dogecoin',
+  domainId: DOMAIN_SECP256K1,
+  encodeAddress: (publicKey, { network }) => ({ address: toDogecoinAddress(publicKey, network) }),
+  hashPayload: hashPrehashedOrSha256,
+  formatSignature: (signature) => toDerSignatureHex(assertSecp256k1Signature(signature)),
+  formatSignatures: derSignatureFormats(SIGHASH_ALL),
+  formatTxHash: hexTxHash(''),
+};
@@ -0,0 +1,46 @@
+/**
+ * Ed25519 chain adapters (Solana, NEAR implicit accounts)
+ * 
+ * Both derive through DOMAIN_ED25519 and sign raw message bytes (no prehash).
+ */
+
+import { ChainAdapter } from '../../types';
+import { DOMAIN_ED25519 } from '../near-client';
+import { parsePublicKey, encodeBase58 } from '../address-encoding';
+import { toBase58Signature, assertEd25519Signature } from '../signature-format';
+import { decodeRawMessage, base58TxHash } from './common';
+
+/**
+ * Parse an Ed25519 public key ("ed25519:<base58>") to its 32 raw bytes
+ */
+export function parseEd25519PublicKey(publicKey: string): Uint8Array {
+  const keyBytes = parsePublicKey(publicKey);
+  if (keyBytes.length !== 32) {
+    throw new Error(`Unsupported ed25519 public key length: ${keyBytes.length}`);
+  }
+  return keyBytes;
+}
+
+/**
+ * Solana: address is the base58 public key, signatures and tx ids are base58 64-byte signatures
+ */
+export const solanaAdapter: ChainAdapter = {
+  chain: 'solana',
+  domainId: DOMAIN_ED25519,
+  encodeAddress: (publicKey) => ({ address: encodeBase58(parseEd25519PublicKey(publicKey)) }),
+  hashPayload: decodeRawMessage,
+  formatSignature: (signature) => toBase58Signature(assertEd25519Signature(signature)),
+  formatTxHash: base58TxHash('sha512'),
+};
+
+/**
+ * NEAR: implicit account ID is the hex public key, tx hashes are base58 32-byte digests
+ */
+export const nearAdapter: ChainAdapter = {
+  chain: 'near',
+  domainId: DOMAIN_ED25519,
+  encodeAddress: (publicKey) => ({ address: Buffer.from(parseEd25519PublicKey(publicKey)).toString('hex') }),
+  hashPayload: decodeRawMessage,
+  formatSignature: (signature) => 'ed25519:' + toBase58Signature(assertEd25519Signature(signature)),
+  formatTxHash: base58TxHash('sha256'),
+};
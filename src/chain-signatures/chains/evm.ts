@@ -0,0 +1,91 @@
+/**
+ * EVM chain adapters (Ethereum, Polygon, Arbitrum, Optimism, and any consumer-registered EVM chain)
+ */
+
+import { keccak256, getAddress, computeAddress } from 'ethers';
+import { ChainAdapter, ChainNetwork, SupportedChain } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { parsePublicKey } from '../address-encoding';
+import { toEvmSignatureHex, assertSecp256k1Signature } from '../signature-format';
+import { hashPrehashedOrKeccak256, hexTxHash, evmSignatureFormats } from './common';
+
+/**
+ * Convert MPC public key to EVM address (Ethereum, Polygon, Arbitrum, Optimism)
+ * 
+ * EVM standard:
+ * 1. Take uncompressed public key (65 bytes with 04 prefix, or 64 bytes raw x,y)
+ * 2. Keccak-256 hash of the 64-byte x,y coordinates
+ * 3. Take the last 20 bytes (40 hex chars) as the address
+ * 4. Apply EIP-55 checksum casing
+ */
+export function toEvmAddress(publicKey: string): string {
+  const keyBytes = parsePublicKey(publicKey);
+
+  // Handle different key formats:
+  // - 65 bytes: 04 prefix + 64 bytes (x,y) - use 64 bytes
+  // - 64 bytes: raw x,y coordinates - use as-is
+  // - 33 bytes: compressed (02/03 prefix + 32 bytes x) - need to decompress
+  let uncompressedXY: Uint8Array;
+  
+  if (keyBytes.length === 65 && keyBytes[0] === 0x04) {
+    // Uncompressed with prefix: skip the 04 prefix
+    uncompressedXY = keyBytes.slice(1);
+  } else if (keyBytes.length === 64) {
+    // Already raw x,y
+    uncompressedXY = keyBytes;
+  } else if (keyBytes.length === 33 && (keyBytes[0] === 0x02 || keyBytes[0] === 0x03)) {
+    // Compressed key - use ethers computeAddress which handles this
+    const hexKey = '0x' + Buffer.from(keyBytes).toString('hex');
+    return computeAddress(hexKey);
+  } else {
+    // Fallback: try to use ethers directly with whatever we have
+    const hexKey = '0x' + Buffer.from(keyBytes).toString('hex');
+    try {
+      return computeAddress(hexKey);
+    } catch {
+      throw new Error(`Unsupported public key format: length=${keyBytes.length}`);
+    }
+  }
+
+  // Keccak-256 hash of the 64-byte x,y coordinates
+  const hash = keccak256(uncompressedXY);
+  
+  // Take last 20 bytes (40 hex chars) and apply checksum
+  const addressLower = '0x' + hash.slice(-40);
+  
+  // Apply EIP-55 checksum casing
+  return getAddress(addressLower);
+}
+
+/**
+ * Create an adapter for an EVM-compatible chain
+ * 
+ * All EVM chains share the secp256k1 domain, keccak-derived addresses,
+ * keccak-256 payload hashing, 65-byte r||s||v signatures and 0x-prefixed tx hashes.
+ * 
+ * @param chainIds - EIP-155 chain ID per network, used by signEvmTransaction
+ * 
+ * @example
+ * registerChain(createEvmChainAdapter('base', { mainnet: 8453, testnet: 84532 }));
+ */
+export function createEvmChainAdapter(
+  chain: SupportedChain,
+  chainIds: Partial<Record<ChainNetwork, number>> = {}
+): ChainAdapter {
+  return {
+    chain,
+    domainId: DOMAIN_SECP256K1,
+    chainIds,
+    encodeAddress: (publicKey) => ({ address: toEvmAddress(publicKey) }),
+    hashPayload: hashPrehashedOrKeccak256,
+    formatSignature: (signature) => toEvmSignatureHex(assertSecp256k1Signature(signature)),
+    formatSignatures: evmSignatureFormats,
+    formatTxHash: hexTxHash('0x'),
+  };
+}
+
+// regtest maps to the default anvil / hardhat local chain ID
+export const ethereumAdapter = createEvmChainAdapter('ethereum', { mainnet: 1, testnet: 11155111, regtest: 31337 });
+export const polygonAdapter = createEvmChainAdapter('polygon', { mainnet: 137, testnet: 80002, regtest: 31337 });
+export const arbitrumAdapter = createEvmChainAdapter('arbitrum', { mainnet: 42161, testnet: 421614, regtest: 31337 });
+export const optimismAdapter = createEvmChainAdapter('optimism', { mainnet: 10, testnet: 11155420, regtest: 31337 });
@@ -0,0 +1,51 @@
+/**
+ * Built-in chain adapters
+ */
+
+import { ChainAdapter } from '../../types';
+import { ethereumAdapter, polygonAdapter, arbitrumAdapter, optimismAdapter } from './evm';
+import { bitcoinAdapter } from './bitcoin';
+import { dogecoinAdapter } from './dogecoin';
+import { rippleAdapter } from './ripple';
+import { solanaAdapter, nearAdapter } from './ed25519';
+import { cosmosHubAdapter, osmosisAdapter, injectiveAdapter, evmosAdapter } from './cosmos';
+import { tronAdapter } from './tron';
+import { litecoinAdapter } from './litecoin';
+import { bitcoinCashAdapter } from './bitcoincash';
+
+export { createEvmChainAdapter, toEvmAddress } from './evm';
+export { createCosmosChainAdapter, toCosmosAddress, CosmosChainAdapterOptions, CosmosKeyType } from './cosmos';
+export { toTronAddress } from './tron';
+export { toLitecoinAddress } from './litecoin';
+export { toBitcoinCashAddress } from './bitcoincash';
+export {
+  hashPrehashedOrSha256,
+  hashPrehashedOrKeccak256,
+  hashBip143Sighash,
+  hashForkIdSighash,
+  decodeRawMessage,
+  hexTxHash,
+  base58TxHash,
+  evmSignatureFormats,
+  derSignatureFormats,
+  compactSignatureFormats,
+} from './common';
+
+export const BUILT_IN_CHAIN_ADAPTERS: ChainAdapter[] = [
+  bitcoinAdapter,
+  ethereumAdapter,
+  dogecoinAdapter,
+  rippleAdapter,
+  polygonAdapter,
+  arbitrumAdapter,
+  optimismAdapter,
+  solanaAdapter,
+  nearAdapter,
+  cosmosHubAdapter,
+  osmosisAdapter,
+  injectiveAdapter,
+  evmosAdapter,
+  tronAdapter,
+  litecoinAdapter,
+  bitcoinCashAdapter,
+];
@@ -0,0 +1,41 @@
+/**
+ * Litecoin chain adapter
+ * 
+ * Same script types as Bitcoin (minus Taproot) with Litecoin's own HRP and version bytes.
+ * SegWit inputs are signed over the BIP143 sighash.
+ */
+
+import { ChainAdapter, ChainNetwork, BitcoinAddressType } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { toDerSignatureHex, assertSecp256k1Signature, SIGHASH_ALL } from '../signature-format';
+import { toUtxoAddress, toBitcoinScriptPubKey, UtxoNetworkParams } from './bitcoin';
+import { hashBip143Sighash, hexTxHash, derSignatureFormats } from './common';
+
+// Litecoin: ltc1... / L... / M... on mainnet, tltc1... / rltc1... / m,n... / Q... on test networks
+const LITECOIN_NETWORKS: Record<ChainNetwork, UtxoNetworkParams> = {
+  mainnet: { bech32Hrp: 'ltc', p2pkhVersion: 0x30, p2shVersion: 0x32 },
+  testnet: { bech32Hrp: 'tltc', p2pkhVersion: 0x6f, p2shVersion: 0x3a },
+  regtest: { bech32Hrp: 'rltc', p2pkhVersion: 0x6f, p2shVersion: 0x3a },
+};
+
+/**
+ * Convert MPC public key to a Litecoin address of the given script type
+ */
+export function toLitecoinAddress(publicKey: string, network: ChainNetwork, addressType: BitcoinAddressType): string {
+  return toUtxoAddress(publicKey, LITECOIN_NETWORKS[network], addressType);
+}
+
+export const litecoinAdapter: ChainAdapter = {
+  chain: 'litecoin',
+  domainId: DOMAIN_SECP256K1,
+  addressTypes: ['p2pkh', 'p2sh-p2wpkh', 'p2wpkh'],
+  encodeAddress: (publicKey, { network, addressType = 'p2wpkh' }) => ({
+    address: toLitecoinAddress(publicKey, network, addressType),
+    addressType,
+    scriptPubKey: toBitcoinScriptPubKey(publicKey, addressType),
+  }),
+  hashPayload: hashBip143Sighash,
+  formatSignature: (signature) => toDerSignatureHex(assertSecp256k1Signature(signature)),
+  formatSignatures: derSignatureFormats(SIGHASH_ALL),
+  formatTxHash: hexTxHash(''),
+};
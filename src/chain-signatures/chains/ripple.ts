@@ -0,0 +1,64 @@
+/**
+ * XRPL (ripple) chain adapter
+ * 
+ * @see https://xrpl.org/docs/concepts/accounts/addresses
+ */
+
+import { ChainAdapter, ChainNetwork } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import {
+  compressSecp256k1PublicKey,
+  hash160,
+  encodeBase58Check,
+  BASE58_RIPPLE_ALPHABET,
+} from '../address-encoding';
+import { toDerSignatureHex, assertSecp256k1Signature } from '../signature-format';
+import { hashPrehashedOrSha256, hexTxHash, compactSignatureFormats } from './common';
+
+// XRPL AccountID version byte (classic addresses start with "r" on every network)
+const RIPPLE_ACCOUNT_ID_VERSION = 0x00;
+
+// XRPL X-address prefixes (mainnet "X", testnet "T"); XRPL has no regtest, so it uses testnet
+const RIPPLE_X_ADDRESS_PREFIX: Record<ChainNetwork, Uint8Array> = {
+  mainnet: new Uint8Array([0x05, 0x44]),
+  testnet: new Uint8Array([0x04, 0x93]),
+  regtest: new Uint8Array([0x04, 0x93]),
+};
+
+/**
+ * Convert MPC public key to an XRPL classic address
+ *
+ * AccountID = RIPEMD-160(SHA-256(compressed key)), encoded as
+ * base58check with version 0x00 over the Ripple alphabet ("r..." addresses).
+ */
+export function toRippleAddress(publicKey: string): string {
+  const accountId = hash160(compressSecp256k1PublicKey(publicKey));
+  return encodeBase58Check(RIPPLE_ACCOUNT_ID_VERSION, accountId, BASE58_RIPPLE_ALPHABET);
+}
+
+/**
+ * Convert MPC public key to an XRPL X-address (no destination tag)
+ *
+ * X-address payload: network prefix || AccountID || tag flag (0) || 8-byte tag (zero)
+ *
+ * @see https://xrpaddress.info
+ */
+export function toRippleXAddress(publicKey: string, network: ChainNetwork): string {
+  const accountId = hash160(compressSecp256k1PublicKey(publicKey));
+  const payload = new Uint8Array(accountId.length + 9);
+  payload.set(accountId);
+  return encodeBase58Check(RIPPLE_X_ADDRESS_PREFIX[network], payload, BASE58_RIPPLE_ALPHABET);
+}
+
+export const rippleAdapter: ChainAdapter = {
+  chain: 'ripple',
+  domainId: DOMAIN_SECP256K1,
+  encodeAddress: (publicKey, { network }) => ({
+    address: toRippleAddress(publicKey),
+    xAddress: toRippleXAddress(publicKey, network),
+  }),
+  hashPayload: hashPrehashedOrSha256,
+  formatSignature: (signature) => toDerSignatureHex(assertSecp256k1Signature(signature)),
+  formatSignatures: compactSignatureFormats,
+  formatTxHash: hexTxHash('', true),
+};
@@ -0,0 +1,40 @@
+/**
+ * Tron chain adapter
+ * 
+ * Tron accounts use the same secp256k1 key and keccak-derived 20 bytes as EVM chains,
+ * prefixed with version byte 0x41 and base58check-encoded ("T..." addresses).
+ * 
+ * @see https://developers.tron.network/docs/account
+ */
+
+import { getBytes } from 'ethers';
+import { ChainAdapter } from '../../types';
+import { DOMAIN_SECP256K1 } from '../near-client';
+import { encodeBase58Check } from '../address-encoding';
+import { toEvmSignatureHex, assertSecp256k1Signature } from '../signature-format';
+import { toEvmAddress } from './evm';
+import { hashPrehashedOrSha256, hexTxHash, evmSignatureFormats } from './common';
+
+// Tron mainnet address version byte (addresses start with "T")
+const TRON_ADDRESS_VERSION = 0x41;
+
+/**
+ * Convert MPC public key to a Tron base58check address
+ */
+export function toTronAddress(publicKey: string): string {
+  return encodeBase58Check(TRON_ADDRESS_VERSION, getBytes(toEvmAddress(publicKey)));
+}
+
+/**
+ * Tron signs txID = SHA-256(raw_data) and serializes signatures as r || s || v (v = 27 + recovery id).
+ * Transaction ids are bare 64-char hex.
+ */
+export const tronAdapter: ChainAdapter = {
+  chain: 'tron',
+  domainId: DOMAIN_SECP256K1,
+  encodeAddress: (publicKey) => ({ address: toTronAddress(publicKey) }),
+  hashPayload: hashPrehashedOrSha256,
+  formatSignature: (signature) => toEvmSignatureHex(assertSecp256k1Signature(signature)).slice(2),
+  formatSignatures: evmSignatureFormats,
+  formatTxHash: hexTxHash(''),
+};
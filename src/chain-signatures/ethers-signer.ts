@@ -0,0 +1,171 @@
+/**
+ * MpcEthersSigner - ethers v6 Signer for MPC-derived EVM accounts
+ *
+ * Lets existing ethers code (ContractFactory, Contract.connect(signer),
+ * signer.sendTransaction) run against a chain-signatures account: the address
+ * comes from deriveAddress and every signature goes through the v1.signer MPC flow.
+ */
+
+import {
+  AbstractSigner,
+  Provider,
+  Transaction,
+  TransactionRequest,
+  TransactionLike,
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataEncoder,
+  copyRequest,
+  resolveAddress,
+  resolveProperties,
+  getAddress,
+} from 'ethers';
+import { ChainNetwork, EvmTransactionRequest, SupportedChain } from '../types';
+import { ChainSignaturesSimulator } from './simulator';
+
+/**
+ * The chain signatures client methods the EVM signer adapters need
+ */
+export type MpcEvmSigningClient = Pick<
+  ChainSignaturesSimulator,
+  'deriveAddress' | 'signEvmTransaction' | 'signMessage' | 'signTypedData'
+>;
+
+export interface MpcSignerOptions {
+  /** EVM chain of the derived account (default: ethereum) */
+  chain?: SupportedChain;
+  derivationPath?: string;
+  /** Network used to look up the chain ID when a tx does not set one */
+  network?: ChainNetwork;
+}
+
+export class MpcEthersSigner extends AbstractSigner {
+  readonly nearAccount: string;
+  private client: MpcEvmSigningClient;
+  private options: MpcSignerOptions;
+  private address?: Promise<string>;
+
+  constructor(
+    client: MpcEvmSigningClient,
+    nearAccount: string,
+    options: MpcSignerOptions = {},
+    provider: Provider | null = null
+  ) {
+    super(provider);
+    this.client = client;
+    this.nearAccount = nearAccount;
+    this.options = options;
+  }
+
+  /**
+   * Derived EVM address (resolved once)
+   */
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = this.client
+        .deriveAddress(this.nearAccount, this.chain, this.options.derivationPath)
+        .then((derived) => derived.address);
+      // Don't cache failures so a later call can retry
+      this.address.catch(() => (this.address = undefined));
+    }
+    return this.address;
+  }
+
+  connect(provider: Provider | null): MpcEthersSigner {
+    return new MpcEthersSigner(this.client, this.nearAccount, this.options, provider);
+  }
+
+  /**
+   * Sign a populated transaction (nonce, gas limit and fees must be set;
+   * sendTransaction fills them from the provider)
+   */
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const request = copyRequest(tx);
+    const { to, from } = await resolveProperties({
+      to: request.to ? resolveAddress(request.to, this.provider) : undefined,
+      from: request.from ? resolveAddress(request.from, this.provider) : undefined,
+    });
+    if (to != null) {
+      request.to = to;
+    }
+    if (from != null) {
+      const address = await this.getAddress();
+      if (getAddress(from) !== address) {
+        throw new Error(`Transaction from ${from} does not match MPC signer address ${address}`);
+      }
+      delete request.from;
+    }
+
+    const btx = Transaction.from(request as TransactionLike<string>);
+    const signed = await this.client.signEvmTransaction(
+      this.nearAccount,
+      this.chain,
+      toEvmTransactionRequest(btx),
+      { network: this.options.network, derivationPath: this.options.derivationPath }
+    );
+    return signed.rawTransaction;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const signed = await this.client.signMessage(this.nearAccount, message, {
+      chain: this.chain,
+      derivationPath: this.options.derivationPath,
+    });
+    return signed.signature;
+  }
+
+  /**
+   * Sign EIP-712 typed data, resolving ENS names through the provider
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const populated = await TypedDataEncoder.resolveNames(domain, types, value, async (name: string) => {
+      if (!this.provider) {
+        throw new Error(`Cannot resolve ENS name ${name} without a provider`);
+      }
+      const address = await this.provider.resolveName(name);
+      if (!address) {
+        throw new Error(`Unconfigured ENS name: ${name}`);
+      }
+      return address;
+    });
+
+    const signed = await this.client.signTypedData(this.nearAccount, populated.domain, types, populated.value, {
+      chain: this.chain,
+      derivationPath: this.options.derivationPath,
+    });
+    return signed.signature;
+  }
+
+  private get chain(): SupportedChain {
+    return this.options.chain || 'ethereum';
+  }
+}
+
+/**
+ * Map a normalized ethers Transaction to signEvmTransaction's request shape
+ */
+function toEvmTransactionRequest(tx: Transaction): EvmTransactionRequest {
+  const type = tx.type ?? tx.inferType();
+  if (type !== 0 && type !== 2) {
+    throw new Error(`Unsupported transaction type for MPC signing: ${type}`);
+  }
+
+  return {
+    to: tx.to ?? undefined,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+    value: tx.value,
+    data: tx.data,
+    // Transaction defaults an unset chainId to 0
+    chainId: tx.chainId === BigInt(0) ? undefined : Number(tx.chainId),
+    type,
+    gasPrice: tx.gasPrice ?? undefined,
+    maxFeePerGas: tx.maxFeePerGas ?? undefined,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? undefined,
+    accessList: type === 2 ? tx.accessList ?? undefined : undefined,
+  };
+}
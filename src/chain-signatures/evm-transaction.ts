@@ -0,0 +1,85 @@
+/**
+ * EVM transaction building and serialization for MPC signing
+ *
+ * The MPC network signs keccak256(unsigned serialization); ethers builds the
+ * EIP-1559 (type 2) or legacy (type 0, EIP-155) encoding and the signed raw tx.
+ */
+
+import { Transaction, Signature as EthersSignature } from 'ethers';
+import {
+  ChainAdapter,
+  ChainNetwork,
+  EvmTransactionRequest,
+  Secp256k1Signature,
+} from '../types';
+import { toEvmSignatureParts } from './signature-format';
+
+/**
+ * Resolve the EIP-155 chain ID for an EVM adapter and network
+ *
+ * An explicit chainId on the request is used when the registry has none for the
+ * network; a conflicting one is rejected to avoid signing for the wrong chain.
+ */
+export function resolveEvmChainId(
+  adapter: ChainAdapter,
+  network: ChainNetwork,
+  requestedChainId?: number
+): number {
+  if (!adapter.chainIds) {
+    throw new Error(`Chain ${adapter.chain} is not an EVM chain`);
+  }
+
+  const registeredChainId = adapter.chainIds[network];
+  if (registeredChainId !== undefined && requestedChainId !== undefined && registeredChainId !== requestedChainId) {
+    throw new Error(
+      `chainId ${requestedChainId} does not match ${adapter.chain} ${network} chainId ${registeredChainId}`
+    );
+  }
+
+  const chainId = requestedChainId ?? registeredChainId;
+  if (chainId === undefined) {
+    throw new Error(`No chainId configured for chain: ${adapter.chain} (${network})`);
+  }
+  return chainId;
+}
+
+/**
+ * Build the unsigned transaction (type 2 unless gasPrice is set or type 0 is requested)
+ */
+export function buildUnsignedEvmTransaction(request: EvmTransactionRequest, chainId: number): Transaction {
+  const type = request.type ?? (request.gasPrice !== undefined && request.maxFeePerGas === undefined ? 0 : 2);
+
+  if (type === 0 && request.gasPrice === undefined) {
+    throw new Error('Legacy transactions require gasPrice');
+  }
+  if (type === 2 && (request.maxFeePerGas === undefined || request.maxPriorityFeePerGas === undefined)) {
+    throw new Error('EIP-1559 transactions require maxFeePerGas and maxPriorityFeePerGas');
+  }
+
+  return Transaction.from({
+    type,
+    chainId,
+    to: request.to ?? null,
+    nonce: request.nonce,
+    gasLimit: request.gasLimit,
+    value: request.value ?? 0,
+    data: request.data ?? '0x',
+    ...(type === 0
+      ? { gasPrice: request.gasPrice }
+      : {
+          maxFeePerGas: request.maxFeePerGas,
+          maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+          accessList: request.accessList ?? [],
+        }),
+  });
+}
+
+/**
+ * Attach an MPC signature to an unsigned transaction (low-S, y-parity from recovery id)
+ */
+export function attachEvmSignature(tx: Transaction, signature: Secp256k1Signature): Transaction {
+  const { r, s, v } = toEvmSignatureParts(signature);
+  const signed = tx.clone();
+  signed.signature = EthersSignature.from({ r, s, v });
+  return signed;
+}
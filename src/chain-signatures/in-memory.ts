@@ -0,0 +1,220 @@
+/**
+ * InMemoryChainSignatures - deterministic in-process MPC backend
+ *
+ * Holds seeded root secp256k1 / ed25519 keys and signs with the child secret
+ * root + epsilon, using the same epsilon derivation as the v1.signer contract.
+ * Addresses, signatures and the EVM / PSBT signing helpers behave exactly like
+ * ChainSignaturesSimulator, but nothing talks to NEAR RPC or MPC nodes, so
+ * consumer unit tests run in CI without localnet.
+ *
+ * The root keys are derived from a public seed: never use these keys for funds.
+ */
+
+import { createHash } from 'crypto';
+import { SigningKey, getBytes } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { SignatureRequest, Signature } from '../types';
+import { LocalnetConfig, InMemoryChainSignaturesConfig } from '../config';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from './near-client';
+import { MPCService, GeneratedSignature } from './mpc-service';
+import { ChainSignaturesSimulator } from './simulator';
+import { getChainAdapter } from './chain-registry';
+import { deriveEpsilon } from './key-derivation';
+import { encodeBase58 } from './address-encoding';
+import { SECP256K1_N } from './signature-format';
+import { resolveSignPayload } from './payload-encoding';
+
+export const DEFAULT_IN_MEMORY_SEED = 'cross-chain-simulator';
+
+// Placeholder connection settings: the in-memory backend never uses its NearClient
+const IN_MEMORY_LOCALNET_CONFIG: LocalnetConfig = {
+  rpcUrl: 'in-memory://',
+  networkId: 'localnet',
+  mpcContractId: 'v1.signer.in-memory',
+  mpcNodes: [],
+};
+
+const ED25519_L = ed25519.CURVE.n;
+
+/**
+ * MPCService that signs locally with child keys of seeded root keys
+ *
+ * Unlike the contract, any nearAccount can sign: the predecessor is whatever the
+ * request says, which lets tests sign for several accounts with one backend.
+ */
+export class InMemoryMPCService extends MPCService {
+  private secp256k1Root: bigint;
+  private ed25519Root: bigint;
+
+  constructor(seed: string = DEFAULT_IN_MEMORY_SEED) {
+    super(IN_MEMORY_LOCALNET_CONFIG);
+    this.secp256k1Root = seedScalar(seed, 'secp256k1', SECP256K1_N);
+    this.ed25519Root = seedScalar(seed, 'ed25519', ED25519_L);
+  }
+
+  /**
+   * Root public key in the contract's `public_key` format
+   */
+  getRootPublicKey(domainId: number = DOMAIN_SECP256K1): string {
+    return encodePublicKey(this.secretFor(domainId, undefined), domainId);
+  }
+
+  /**
+   * Child public key for (predecessor, path), as `derived_public_key` would return it
+   */
+  derivePublicKey(predecessor: string, path: string, domainId: number = DOMAIN_SECP256K1): string {
+    return encodePublicKey(this.secretFor(domainId, deriveEpsilon(predecessor, path)), domainId);
+  }
+
+  /**
+   * Sign with the child key; there is no NEAR transaction, so no cost is reported
+   */
+  async generateSignatureWithCost(request: SignatureRequest): Promise<GeneratedSignature> {
+    const path = this.buildDerivationPath(request.chain, request.derivationPath);
+    const adapter = getChainAdapter(request.chain);
+    const payloadBytes = resolveSignPayload(
+      request.payload,
+      { encoding: request.encoding, hash: request.hash },
+      adapter.domainId,
+      adapter.hashPayload
+    );
+    const signature = this.signWithDerivedKey(request.nearAccount, path, adapter.domainId, payloadBytes);
+
+    console.log('✅ [IN-MEMORY MPC] Signature generated:', {
+      account: request.nearAccount,
+      chain: request.chain,
+      path,
+    });
+
+    return { signature };
+  }
+
+  /**
+   * Sign contract-level bytes (32-byte digest for ECDSA, raw message for EdDSA)
+   * with the child key of (predecessor, path), as the contract's `sign` does
+   */
+  signWithDerivedKey(predecessor: string, path: string, domainId: number, payload: Uint8Array): Signature {
+    return this.signWithSecret(this.secretFor(domainId, deriveEpsilon(predecessor, path)), domainId, payload);
+  }
+
+  protected signWithSecret(secret: bigint, domainId: number, payload: Uint8Array): Signature {
+    return domainId === DOMAIN_ED25519 ? signEd25519(secret, payload) : signSecp256k1(secret, payload);
+  }
+
+  /**
+   * Root secret, or the child secret root + epsilon (the tweak the contract applies to the public key)
+   *
+   * `root` replaces the seeded root secret (e.g. one reconstructed from key shares).
+   */
+  protected secretFor(domainId: number, epsilon: Uint8Array | undefined, root?: bigint): bigint {
+    switch (domainId) {
+      case DOMAIN_SECP256K1: {
+        const tweak = epsilon ? BigInt('0x' + Buffer.from(epsilon).toString('hex')) : BigInt(0);
+        return ((root ?? this.secp256k1Root) + tweak) % SECP256K1_N;
+      }
+      case DOMAIN_ED25519: {
+        const tweak = epsilon ? bytesToBigIntLE(epsilon) % ED25519_L : BigInt(0);
+        return ((root ?? this.ed25519Root) + tweak) % ED25519_L;
+      }
+      default:
+        throw new Error(`Unsupported domain for in-memory signing: ${domainId}`);
+    }
+  }
+}
+
+/**
+ * ChainSignaturesSimulator backed by InMemoryMPCService
+ *
+ * @example
+ * const chainSigs = new InMemoryChainSignatures({ backend: 'in-memory', seed: 'my-test-suite' });
+ * const { address } = await chainSigs.deriveAddress('user.near', 'ethereum');
+ * const signer = new MpcEthersSigner(chainSigs, 'user.near');
+ */
+export class InMemoryChainSignatures extends ChainSignaturesSimulator {
+  private inMemoryMpc: InMemoryMPCService;
+
+  /**
+   * @param mpc - Backend to sign with instead of a seeded InMemoryMPCService
+   *              (e.g. a SimulatedMpcCluster); config.seed is then ignored
+   */
+  constructor(config: Partial<InMemoryChainSignaturesConfig> = {}, mpc?: InMemoryMPCService) {
+    super({ ...IN_MEMORY_LOCALNET_CONFIG, network: config.network });
+    this.inMemoryMpc = mpc || new InMemoryMPCService(config.seed);
+    this.mpc = this.inMemoryMpc;
+  }
+
+  /**
+   * Root public key of a domain (for cross-checking with deriveChildPublicKey)
+   */
+  getSeededRootPublicKey(domainId: number = DOMAIN_SECP256K1): string {
+    return this.inMemoryMpc.getRootPublicKey(domainId);
+  }
+
+  protected async derivePublicKey(
+    nearAccount: string,
+    derivationPath: string,
+    domainId: number
+  ): Promise<string> {
+    return this.inMemoryMpc.derivePublicKey(nearAccount, derivationPath, domainId);
+  }
+}
+
+/**
+ * Secp256k1: low-S signature with big_r as the compressed R point, like the contract returns
+ * Ed25519: RFC 8032 signature from a raw scalar (the child key has no seed)
+ */
+function signSecp256k1(secret: bigint, payloadHash: Uint8Array): Signature {
+  const signed = new SigningKey(toHex32(secret)).sign(payloadHash);
+  return {
+    scheme: 'secp256k1',
+    big_r: (signed.yParity ? '03' : '02') + signed.r.slice(2),
+    s: signed.s.slice(2),
+    recovery_id: signed.yParity,
+  };
+}
+
+function signEd25519(secret: bigint, message: Uint8Array): Signature {
+  const publicKey = ed25519.ExtendedPoint.BASE.multiply(secret).toRawBytes();
+  // Deterministic nonce from the secret and message (RFC 8032 hashes the seed prefix instead)
+  const nonce = bytesToBigIntLE(sha512(Buffer.from('in-memory-mpc nonce'), scalarToBytesLE(secret), message)) % ED25519_L;
+  const bigR = ed25519.ExtendedPoint.BASE.multiply(nonce).toRawBytes();
+  const k = bytesToBigIntLE(sha512(bigR, publicKey, message)) % ED25519_L;
+  const s = (nonce + k * secret) % ED25519_L;
+
+  return {
+    scheme: 'ed25519',
+    signature: Buffer.concat([bigR, scalarToBytesLE(s)]).toString('hex'),
+  };
+}
+
+function encodePublicKey(secret: bigint, domainId: number): string {
+  if (domainId === DOMAIN_ED25519) {
+    return 'ed25519:' + encodeBase58(ed25519.ExtendedPoint.BASE.multiply(secret).toRawBytes());
+  }
+  // Contract format: 64 raw x,y bytes
+  const uncompressed = getBytes(SigningKey.computePublicKey(toHex32(secret), false));
+  return 'secp256k1:' + encodeBase58(uncompressed.slice(1));
+}
+
+function seedScalar(seed: string, domain: string, order: bigint): bigint {
+  const digest = createHash('sha512').update(`${seed}:${domain}`).digest();
+  return (BigInt('0x' + digest.toString('hex')) % (order - BigInt(1))) + BigInt(1);
+}
+
+function sha512(...parts: Uint8Array[]): Uint8Array {
+  const hash = createHash('sha512');
+  parts.forEach((part) => hash.update(part));
+  return new Uint8Array(hash.digest());
+}
+
+function bytesToBigIntLE(bytes: Uint8Array): bigint {
+  return BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'));
+}
+
+function scalarToBytesLE(scalar: bigint): Uint8Array {
+  return new Uint8Array(Buffer.from(scalar.toString(16).padStart(64, '0'), 'hex').reverse());
+}
+
+function toHex32(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
@@ -0,0 +1,93 @@
+/**
+ * Offline child key derivation matching the v1.signer contract
+ *
+ * The contract derives a per-account key from its root key as:
+ *   epsilon = SHA3-256("near-mpc-recovery v0.1.0 epsilon derivation:" + predecessor + "," + path)
+ *   child   = root + epsilon * G
+ *
+ * This is public math, so addresses can be derived locally from one `public_key`
+ * view call instead of one `derived_public_key` round-trip per address.
+ * - Secp256k1 (domain 0): epsilon is read as a big-endian scalar
+ * - Ed25519 (domain 1): epsilon is read as a little-endian scalar mod l
+ *
+ * @see https://github.com/near/mpc (crates/contract/src/crypto_shared/kdf.rs)
+ */
+
+import { createHash } from 'crypto';
+import { SigningKey, getBytes } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from './near-client';
+import { parsePublicKey, encodeBase58 } from './address-encoding';
+import { SECP256K1_N } from './signature-format';
+
+export const EPSILON_DERIVATION_PREFIX = 'near-mpc-recovery v0.1.0 epsilon derivation:';
+
+/**
+ * Compute the 32-byte epsilon (tweak) for a predecessor account and path
+ */
+export function deriveEpsilon(predecessor: string, path: string): Uint8Array {
+  const derivationPath = `${EPSILON_DERIVATION_PREFIX}${predecessor},${path}`;
+  return new Uint8Array(createHash('sha3-256').update(derivationPath).digest());
+}
+
+/**
+ * Derive the child public key the contract's `derived_public_key` would return
+ *
+ * @param rootKey - Root MPC public key from `public_key` ("secp256k1:..." / "ed25519:...")
+ * @param predecessor - Account ID that calls `sign` (the key owner)
+ * @param path - User-defined derivation path (e.g. "ethereum-1")
+ * @param domainId - DOMAIN_SECP256K1 or DOMAIN_ED25519
+ * @returns Child public key in the same NEAR format as the contract
+ */
+export function deriveChildPublicKey(
+  rootKey: string,
+  predecessor: string,
+  path: string,
+  domainId: number = DOMAIN_SECP256K1
+): string {
+  const epsilon = deriveEpsilon(predecessor, path);
+
+  switch (domainId) {
+    case DOMAIN_SECP256K1:
+      return 'secp256k1:' + encodeBase58(deriveSecp256k1Child(rootKey, epsilon));
+    case DOMAIN_ED25519:
+      return 'ed25519:' + encodeBase58(deriveEd25519Child(rootKey, epsilon));
+    default:
+      throw new Error(`Unsupported domain for offline derivation: ${domainId}`);
+  }
+}
+
+/**
+ * Secp256k1 child key: root + epsilon*G, returned as 64 raw x,y bytes (contract format)
+ */
+function deriveSecp256k1Child(rootKey: string, epsilon: Uint8Array): Uint8Array {
+  let rootBytes = parsePublicKey(rootKey);
+  if (rootBytes.length === 64) {
+    rootBytes = Buffer.concat([Buffer.from([0x04]), rootBytes]);
+  }
+
+  const scalar = BigInt('0x' + Buffer.from(epsilon).toString('hex'));
+  if (scalar === BigInt(0) || scalar >= SECP256K1_N) {
+    throw new Error('Derived epsilon is not a valid secp256k1 scalar');
+  }
+
+  const tweakPoint = SigningKey.computePublicKey(epsilon, false);
+  const child = getBytes(SigningKey.addPoints(rootBytes, tweakPoint, false));
+  return child.slice(1);
+}
+
+/**
+ * Ed25519 child key: root + (epsilon mod l)*G, returned as the 32-byte compressed point
+ */
+function deriveEd25519Child(rootKey: string, epsilon: Uint8Array): Uint8Array {
+  const rootPoint = ed25519.ExtendedPoint.fromHex(parsePublicKey(rootKey));
+  const scalar = bytesToScalarLE(epsilon) % ed25519.CURVE.n;
+  if (scalar === BigInt(0)) {
+    return rootPoint.toRawBytes();
+  }
+  return rootPoint.add(ed25519.ExtendedPoint.BASE.multiply(scalar)).toRawBytes();
+}
+
+function bytesToScalarLE(bytes: Uint8Array): bigint {
+  return BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'));
+}
@@ -12,22 +12,47 @@
  * - sign() returns the signature directly to caller
  */
 
-import { SignatureRequest, Signature } from '../types';
-import { LocalnetConfig } from '../config';
-import { NearClient, DOMAIN_SECP256K1, MPCSignature } from './near-client';
-import { createHash } from 'crypto';
+import {
+  SignatureRequest,
+  Signature,
+  SupportedChain,
+  SignatureVerificationResult,
+  PayloadFormat,
+  SignRequestCost,
+} from '../types';
+import { NearNetworkConfig, parseSignDepositFallback } from '../config';
+import { NearClient, DOMAIN_SECP256K1, DOMAIN_ED25519, MPCSignature, MPCEd25519Signature } from './near-client';
+import { getChainAdapter } from './chain-registry';
+import { hashPrehashedOrSha256, decodeRawMessage } from './chains/common';
+import { verifySecp256k1Signature, verifyEd25519Signature } from './signature-verification';
+import { resolveSignPayload } from './payload-encoding';
+
+/**
+ * Signature with what the backend knows about how it was produced
+ */
+export interface GeneratedSignature {
+  signature: Signature;
+  /** Deposit, refund and gas of the contract sign call (NEAR-backed signing only) */
+  cost?: SignRequestCost;
+  /** Nodes whose key shares produced the signature (simulated threshold cluster only) */
+  participants?: string[];
+}
 
 export class MPCService {
   private nearClient: NearClient;
   private signerAccountId?: string;
 
-  constructor(config: LocalnetConfig) {
+  constructor(config: NearNetworkConfig) {
     this.nearClient = new NearClient(
       config.rpcUrl,
       config.networkId,
       config.mpcContractId,
       config.signerAccountId,
-      config.signerPrivateKey
+      config.signerPrivateKey,
+      {
+        depositFallback: parseSignDepositFallback(config.signDepositFallback),
+        signer: config.signer,
+      }
     );
     this.signerAccountId = config.signerAccountId;
   }
@@ -42,6 +67,16 @@ export class MPCService {
    * 4. Contract resumes and returns signature directly
    */
   async generateSignature(request: SignatureRequest): Promise<Signature> {
+    const { signature } = await this.generateSignatureWithCost(request);
+    return signature;
+  }
+
+  /**
+   * Generate signature and report the deposit, refund and gas of the sign call
+   */
+  async generateSignatureWithCost(
+    request: SignatureRequest
+  ): Promise<GeneratedSignature> {
     console.log('🔐 [MPC SERVICE] Generating signature:', {
       account: request.nearAccount,
       chain: request.chain,
@@ -61,24 +96,42 @@ export class MPCService {
       // Build derivation path (NEAR docs format: "ethereum-1", etc.)
       const path = this.buildDerivationPath(request.chain, request.derivationPath);
 
-      // Hash payload to 32 bytes if not already
-      const payloadHash = this.hashPayload(request.payload);
+      // Domain and default payload hashing rule come from the chain's registered adapter;
+      // an explicit encoding/hash on the request overrides the rule
+      const adapter = getChainAdapter(request.chain);
+      const domainId = adapter.domainId;
+      const payloadBytes = resolveSignPayload(
+        request.payload,
+        { encoding: request.encoding, hash: request.hash },
+        domainId,
+        adapter.hashPayload
+      );
+
+      if (domainId === DOMAIN_ED25519) {
+        // EdDSA signs the raw message bytes, not a prehash
+        const mpcSignature = await this.nearClient.callSignEd25519({
+          path,
+          payload: payloadBytes,
+          domainId,
+        });
 
-      // Get domain ID based on chain type
-      const domainId = this.getDomainId(request.chain);
+        console.log('✅ [MPC SERVICE] Signature generated');
+
+        return { signature: this.convertEd25519Signature(mpcSignature), cost: mpcSignature.cost };
+      }
 
       // Call v1.signer contract sign method
       // This uses yield/resume - the call blocks until MPC signature is ready
       const mpcSignature = await this.nearClient.callSign({
         path,
-        payload: payloadHash,
+        payload: payloadBytes,
         domainId,
       });
 
       console.log('✅ [MPC SERVICE] Signature generated');
 
       // Convert MPC signature format to our Signature type
-      return this.convertMpcSignature(mpcSignature);
+      return { signature: this.convertMpcSignature(mpcSignature), cost: mpcSignature.cost };
     } catch (error) {
       console.error('❌ [MPC SERVICE] Signature generation failed:', error);
       throw error;
@@ -86,38 +139,12 @@ export class MPCService {
   }
 
   /**
-   * Hash payload to 32 bytes for signing
-   * EVM transactions should already be hashed (keccak256 of tx)
-   */
-  private hashPayload(payload: string): Uint8Array {
-    // If payload is already 32 bytes (64 hex chars or 66 with 0x), use as-is
-    const cleanPayload = payload.startsWith('0x') ? payload.slice(2) : payload;
-    
-    if (cleanPayload.length === 64 && /^[0-9a-fA-F]+$/.test(cleanPayload)) {
-      // Already a 32-byte hash
-      return new Uint8Array(Buffer.from(cleanPayload, 'hex'));
-    }
-
-    // Hash the payload to 32 bytes using SHA-256
-    // Note: For EVM, you should use keccak256 on the unsigned tx before calling this
-    const hash = createHash('sha256')
-      .update(Buffer.from(payload, 'hex'))
-      .digest();
-    
-    return new Uint8Array(hash);
-  }
-
-  /**
-   * Get domain ID for chain type
+   * Get domain ID for chain type from the chain registry
    * DomainId(0) is the legacy/default ECDSA (Secp256k1) domain in the upstream contract.
+   * DomainId(1) is the Ed25519 domain used by Solana and NEAR implicit accounts.
    */
-  private getDomainId(chain: string): number {
-    const evmChains = ['ethereum', 'polygon', 'arbitrum', 'optimism'];
-    if (evmChains.includes(chain)) {
-      return DOMAIN_SECP256K1;
-    }
-    // Bitcoin, Dogecoin also use Secp256k1
-    return DOMAIN_SECP256K1;
+  getDomainId(chain: SupportedChain): number {
+    return getChainAdapter(chain).domainId;
   }
 
   /**
@@ -134,6 +161,7 @@ export class MPCService {
       : mpcSig.s;
 
     return {
+      scheme: 'secp256k1',
       big_r,
       s,
       recovery_id: mpcSig.recovery_id,
@@ -141,33 +169,85 @@ export class MPCService {
   }
 
   /**
-   * Verify MPC-generated signature using ECDSA recovery
+   * Convert MPCEd25519Signature to our Signature type (hex-encoded R || S)
+   */
+  private convertEd25519Signature(mpcSig: MPCEd25519Signature): Signature {
+    return {
+      scheme: 'ed25519',
+      signature: Buffer.from(mpcSig.signature).toString('hex'),
+    };
+  }
+
+  /**
+   * Verify MPC-generated signature (ECDSA recovery / Ed25519 verify)
    */
   async verifySignature(
     signature: Signature,
     payload: string,
-    publicKey: string
+    publicKey: string,
+    chain?: SupportedChain,
+    format: PayloadFormat = {}
   ): Promise<boolean> {
+    const result = await this.verifySignatureDetailed(signature, payload, publicKey, chain, format);
+    return result.valid;
+  }
+
+  /**
+   * Verify MPC-generated signature and report why it failed
+   *
+   * The payload is decoded with the explicit format if one is given, else the chain
+   * adapter's rule; without a chain, secp256k1 payloads use the prehashed-or-SHA-256
+   * rule and ed25519 payloads are the raw hex message.
+   */
+  async verifySignatureDetailed(
+    signature: Signature,
+    payload: string,
+    publicKey: string,
+    chain?: SupportedChain,
+    format: PayloadFormat = {}
+  ): Promise<SignatureVerificationResult> {
     console.log('✓ [MPC SERVICE] Verifying signature');
 
+    let message: Uint8Array;
     try {
-      // Basic validation: check signature structure
-      if (!signature.big_r || !signature.s) {
-        console.error('❌ [MPC SERVICE] Invalid signature structure');
-        return false;
+      if (chain) {
+        const adapter = getChainAdapter(chain);
+        const expectedScheme = adapter.domainId === DOMAIN_ED25519 ? 'ed25519' : 'secp256k1';
+        if ((signature.scheme ?? 'secp256k1') !== expectedScheme) {
+          return this.logVerification({
+            valid: false,
+            status: 'malformed',
+            reason: `Expected a ${expectedScheme} signature for chain: ${chain}`,
+          });
+        }
+        message = resolveSignPayload(payload, format, adapter.domainId, adapter.hashPayload);
+      } else {
+        message = signature.scheme === 'ed25519'
+          ? resolveSignPayload(payload, format, DOMAIN_ED25519, decodeRawMessage)
+          : resolveSignPayload(payload, format, DOMAIN_SECP256K1, hashPrehashedOrSha256);
       }
-
-      // TODO: Implement full cryptographic verification using ethers
-      // This requires:
-      // 1. Recover public key from signature using recoverPublicKey
-      // 2. Compare recovered public key with expected public key
-      
-      // For now, return true if structure is valid
-      return true;
     } catch (error) {
-      console.error('❌ [MPC SERVICE] Signature verification failed:', error);
-      return false;
+      return this.logVerification({
+        valid: false,
+        status: 'malformed',
+        reason: `Invalid payload: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+
+    const result = signature.scheme === 'ed25519'
+      ? verifyEd25519Signature(signature, message, publicKey)
+      : verifySecp256k1Signature(signature, message, publicKey);
+
+    return this.logVerification(result);
+  }
+
+  private logVerification(result: SignatureVerificationResult): SignatureVerificationResult {
+    if (result.valid) {
+      console.log('✅ [MPC SERVICE] Signature verified');
+    } else {
+      console.error(`❌ [MPC SERVICE] Signature verification failed (${result.status}):`, result.reason);
     }
+    return result;
   }
 
   /**
@@ -175,7 +255,7 @@ export class MPCService {
    * 
    * Per NEAR docs, path is a user-defined string like "ethereum-1"
    */
-  private buildDerivationPath(chain: string, customPath?: string): string {
+  protected buildDerivationPath(chain: string, customPath?: string): string {
     if (customPath) {
       return customPath;
     }
@@ -8,21 +8,29 @@
  * - `public_key(domain_id?: DomainId)` - returns the root MPC public key for a domain (defaults to 0)
  * - `derived_public_key(path: string, predecessor?: AccountId, domain_id?: DomainId)` - derives a child key
  * - `sign(request: SignRequest)` - yields, MPC signs, resumes with signature
+ *   (ECDSA takes a 32-byte `payload`; EdDSA takes `payload_v2: { Eddsa: hex }` with the raw message)
+ * - `experimental_signature_deposit()` - required sign deposit in yoctoNEAR (older contracts only;
+ *   they scale it with pending requests and refund the surplus)
  * 
  * @see https://docs.near.org/chain-abstraction/chain-signatures/getting-started
  */
 
-import { connect, Near, Account, keyStores, KeyPair } from 'near-api-js';
-import { SignatureRequest } from '../types';
+import { connect, Near, Account, keyStores, KeyPair, Signer } from 'near-api-js';
+import type { FinalExecutionOutcome } from 'near-api-js/lib/providers';
+import { SignatureRequest, SignRequestCost } from '../types';
 
 // NOTE: The upstream contract uses DomainId (u64), which identifies a key in its registry.
 // DomainId(0) is the legacy/default ECDSA (Secp256k1) domain.
 export const DOMAIN_SECP256K1 = 0;
 export const DOMAIN_ED25519 = 1; // May exist depending on how domains were added.
 
+// Contracts without a deposit view require 1 yoctoNEAR per sign request
+export const DEFAULT_SIGN_DEPOSIT_FALLBACK = BigInt(1);
+const SIGN_GAS = BigInt('300000000000000'); // 300 TGas
+
 export interface SignRequestParams {
   path: string;
-  payload: Uint8Array | number[]; // 32-byte hash as array
+  payload: Uint8Array | number[]; // 32-byte hash as array (ECDSA) or raw message bytes (EdDSA)
   domainId?: number;
 }
 
@@ -44,6 +52,27 @@ export interface MPCSignature {
   recovery_id: number;
 }
 
+/**
+ * Ed25519 signature returned from sign function call on an EdDSA domain
+ * The contract returns the 64-byte (R || S) signature as a byte array
+ */
+export interface MPCEd25519Signature {
+  scheme: 'Ed25519';
+  signature: number[];
+}
+
+/**
+ * Contract signature plus the deposit accounting of the sign transaction
+ */
+export type WithSignCost<T> = T & { cost: SignRequestCost };
+
+export interface SignCallOptions {
+  /** Deposit (yoctoNEAR) attached when the contract has no deposit view */
+  depositFallback?: bigint;
+  /** Signs the sign transactions instead of signerPrivateKey (e.g. a KMS or wallet-backed Signer) */
+  signer?: Signer;
+}
+
 export class NearClient {
   private near: Near | null = null;
   private viewAccount: Account | null = null;
@@ -55,7 +84,8 @@ export class NearClient {
     private networkId: string,
     private mpcContractId: string,
     private signerAccountId?: string,
-    private signerPrivateKey?: string
+    private signerPrivateKey?: string,
+    private signCallOptions: SignCallOptions = {}
   ) {}
 
   /**
@@ -91,6 +121,9 @@ export class NearClient {
       // Signer account for function calls (if credentials provided)
       if (this.signerAccountId) {
         this.signerAccount = await this.near.account(this.signerAccountId);
+        if (this.signCallOptions.signer) {
+          this.signerAccount.setSigner(this.signCallOptions.signer);
+        }
       }
       
       console.log('✅ [NEAR CLIENT] Connected to NEAR:', {
@@ -214,15 +247,9 @@ export class NearClient {
    * 5. Original sign() call completes and returns signature
    * 
    * @param params - Sign request parameters
-   * @returns MPCSignature - The signature (r, s, recovery_id)
+   * @returns MPCSignature - The signature (r, s, recovery_id) and the sign call's cost
    */
-  async callSign(params: SignRequestParams): Promise<MPCSignature> {
-    await this.initialize();
-
-    if (!this.signerAccount) {
-      throw new Error('NEAR client not initialized with signer credentials');
-    }
-
+  async callSign(params: SignRequestParams): Promise<WithSignCost<MPCSignature>> {
     try {
       // Convert payload to array format if needed
       const payloadArray = Array.isArray(params.payload) 
@@ -236,25 +263,10 @@ export class NearClient {
       });
 
       // Build the sign request args per contract API
-      const signArgs = {
-        request: {
-          payload: payloadArray,
-          path: params.path,
-          domain_id: params.domainId ?? DOMAIN_SECP256K1,
-        },
-      };
-
-      // Required deposit for sign request (per NEAR docs)
-      // The exact amount may vary - 1 NEAR should be sufficient for most cases
-      const SIGN_DEPOSIT = BigInt('1000000000000000000000000'); // 1 NEAR in yocto
-
-      // Call the sign method - this will yield until MPC completes
-      const result = await this.signerAccount.functionCall({
-        contractId: this.mpcContractId,
-        methodName: 'sign',
-        args: signArgs,
-        gas: BigInt('300000000000000'), // 300 TGas
-        attachedDeposit: SIGN_DEPOSIT,
+      const { result, cost } = await this.submitSignRequest({
+        payload: payloadArray,
+        path: params.path,
+        domain_id: params.domainId ?? DOMAIN_SECP256K1,
       });
 
       // Parse signature from transaction result
@@ -263,15 +275,160 @@ export class NearClient {
       
       console.log('✅ [NEAR CLIENT] Sign completed:', {
         recovery_id: signature.recovery_id,
+        ...cost,
+      });
+
+      return { ...signature, cost };
+    } catch (error) {
+      console.error('❌ [NEAR CLIENT] Failed to call sign:', error);
+      throw new Error(`Failed to request signature: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Call v1.signer contract's sign method on an Ed25519 (EdDSA) domain
+   * 
+   * Unlike ECDSA, EdDSA signs the raw message (32-1232 bytes), not a prehash.
+   * The message is sent hex-encoded as `payload_v2: { Eddsa: "<hex>" }`.
+   * 
+   * @param params - Sign request parameters (domainId defaults to DOMAIN_ED25519)
+   * @returns MPCEd25519Signature - The 64-byte signature and the sign call's cost
+   */
+  async callSignEd25519(params: SignRequestParams): Promise<WithSignCost<MPCEd25519Signature>> {
+    try {
+      const payloadHex = Buffer.from(params.payload).toString('hex');
+
+      console.log('📝 [NEAR CLIENT] Calling sign (Ed25519):', {
+        path: params.path,
+        payloadLength: params.payload.length,
+        domainId: params.domainId ?? DOMAIN_ED25519,
       });
 
-      return signature;
+      const { result, cost } = await this.submitSignRequest({
+        payload_v2: { Eddsa: payloadHex },
+        path: params.path,
+        domain_id: params.domainId ?? DOMAIN_ED25519,
+      });
+
+      const signature = this.parseEd25519SignatureFromResult(result);
+
+      console.log('✅ [NEAR CLIENT] Sign completed (Ed25519):', cost);
+
+      return { ...signature, cost };
     } catch (error) {
       console.error('❌ [NEAR CLIENT] Failed to call sign:', error);
       throw new Error(`Failed to request signature: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Deposit the contract requires for a sign request
+   *
+   * Queries `experimental_signature_deposit`; contracts without that view (or without
+   * code) get the configured fallback. Any other failure is rethrown.
+   */
+  async getSignDeposit(): Promise<{ deposit: bigint; source: SignRequestCost['depositSource'] }> {
+    await this.initialize();
+
+    if (!this.viewAccount) {
+      throw new Error('NEAR client not initialized');
+    }
+
+    try {
+      const result = await this.viewAccount.viewFunction({
+        contractId: this.mpcContractId,
+        methodName: 'experimental_signature_deposit',
+        args: {},
+      });
+      return { deposit: BigInt(result as string | number), source: 'contract' };
+    } catch (error) {
+      // Only a contract without the view falls back; RPC outages and timeouts must not
+      // silently produce an underfunded sign call
+      if (!isMissingViewMethod(error)) {
+        throw error;
+      }
+      const deposit = this.signCallOptions.depositFallback ?? DEFAULT_SIGN_DEPOSIT_FALLBACK;
+      console.log('⚠️  [NEAR CLIENT] No signature deposit view, using fallback:', {
+        deposit: deposit.toString(),
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return { deposit, source: 'fallback' };
+    }
+  }
+
+  /**
+   * Submit a sign request to the contract and return the raw transaction result
+   * with its deposit accounting. This call blocks while the contract yields until MPC completes
+   */
+  private async submitSignRequest(
+    request: Record<string, unknown>
+  ): Promise<{ result: FinalExecutionOutcome; cost: SignRequestCost }> {
+    await this.initialize();
+
+    if (!this.signerAccount) {
+      throw new Error('NEAR client not initialized with signer credentials');
+    }
+
+    const { deposit, source } = await this.getSignDeposit();
+
+    // Call the sign method - this will yield until MPC completes
+    const result = await this.signerAccount.functionCall({
+      contractId: this.mpcContractId,
+      methodName: 'sign',
+      args: { request },
+      gas: SIGN_GAS,
+      attachedDeposit: deposit,
+    });
+
+    return { result, cost: await this.computeSignCost(result, deposit, source) };
+  }
+
+  /**
+   * Gas burnt across the transaction and its receipts, and the deposit refunded
+   * by the contract (a Transfer receipt from the contract back to the signer)
+   */
+  private async computeSignCost(
+    result: FinalExecutionOutcome,
+    deposit: bigint,
+    depositSource: SignRequestCost['depositSource']
+  ): Promise<SignRequestCost> {
+    const outcomes = [result.transaction_outcome, ...result.receipts_outcome];
+    const gasBurnt = outcomes.reduce((sum, { outcome }) => sum + BigInt(outcome.gas_burnt), BigInt(0));
+    const tokensBurnt = outcomes.reduce((sum, { outcome }) => sum + BigInt(outcome.tokens_burnt), BigInt(0));
+
+    const near = this.near;
+    const signerAccountId = this.signerAccountId;
+    if (!near || !signerAccountId) {
+      throw new Error('NEAR client not initialized with signer credentials');
+    }
+
+    let refund: bigint | undefined;
+    try {
+      // Receipt actions are only returned by EXPERIMENTAL_tx_status
+      const detailed = await near.connection.provider.txStatusReceipts(
+        result.transaction.hash,
+        signerAccountId,
+        'FINAL'
+      );
+      refund = (detailed.receipts ?? [])
+        .filter((r) => r.predecessor_id === this.mpcContractId && r.receiver_id === signerAccountId)
+        .flatMap((r) => r.receipt.Action?.actions ?? [])
+        .reduce((sum, action) => sum + BigInt(action.Transfer?.deposit ?? 0), BigInt(0));
+    } catch (error) {
+      console.log('⚠️  [NEAR CLIENT] Could not fetch sign receipts for refund:', {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      deposit: deposit.toString(),
+      depositSource,
+      refund: refund?.toString(),
+      gasBurnt: gasBurnt.toString(),
+      tokensBurnt: tokensBurnt.toString(),
+    };
+  }
+
   /**
    * Parse MPCSignature from transaction result
    * The contract returns the signature as the return value of the function call
@@ -323,6 +480,44 @@ export class NearClient {
     throw new Error('Failed to parse signature from transaction result');
   }
 
+  /**
+   * Parse MPCEd25519Signature from transaction result
+   * Expected return value: { scheme: "Ed25519", signature: [64 bytes] } (optionally wrapped in Ok)
+   */
+  private parseEd25519SignatureFromResult(result: unknown): MPCEd25519Signature {
+    const txResult = result as {
+      receipts_outcome: Array<{
+        outcome: {
+          status: {
+            SuccessValue?: string;
+            Failure?: unknown;
+          };
+        };
+      }>;
+    };
+
+    for (const receipt of txResult.receipts_outcome) {
+      if (receipt.outcome.status.SuccessValue) {
+        const decoded = Buffer.from(receipt.outcome.status.SuccessValue, 'base64').toString('utf8');
+        try {
+          const parsed = JSON.parse(decoded);
+          const value = parsed.Ok ?? parsed;
+
+          if (Array.isArray(value.signature) && value.signature.length === 64) {
+            return {
+              scheme: 'Ed25519',
+              signature: value.signature,
+            };
+          }
+        } catch {
+          // Not JSON, continue
+        }
+      }
+    }
+
+    throw new Error('Failed to parse Ed25519 signature from transaction result');
+  }
+
   private parsePublicKeyViewResult(result: unknown): string {
     // Upstream contract returns a plain JSON string, e.g. "secp256k1:..."
     if (typeof result === 'string') {
@@ -350,3 +545,14 @@ export class NearClient {
   }
 }
 
+/**
+ * Whether a view call failed because the method or the contract code does not exist
+ * (as opposed to an RPC outage, timeout or contract panic)
+ */
+function isMissingViewMethod(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const type = 'type' in error && typeof error.type === 'string' ? error.type : '';
+  return /MethodNotFound|CodeDoesNotExist|NO_CONTRACT_CODE/.test(`${error.message} ${type}`);
+}
@@ -0,0 +1,132 @@
+/**
+ * Explicit payload decoding and hashing for sign requests
+ *
+ * Callers state how the payload string is encoded and which hash to apply,
+ * instead of relying on the chain adapter's prehash-or-hash guess. Invalid
+ * combinations are rejected before anything is sent to the contract.
+ */
+
+import { createHash } from 'crypto';
+import { keccak256, getBytes } from 'ethers';
+import { PayloadFormat, PayloadEncoding, PayloadHash } from '../types';
+import { DOMAIN_ED25519 } from './near-client';
+
+// Message length limits of the contract's EdDSA domain
+const ED25519_MIN_MESSAGE_BYTES = 32;
+const ED25519_MAX_MESSAGE_BYTES = 1232;
+
+const ENCODINGS: PayloadEncoding[] = ['prehashed-hex', 'hex', 'utf8', 'base64'];
+const HASHES: PayloadHash[] = ['none', 'sha256', 'keccak256', 'double-sha256'];
+
+/**
+ * Whether a request sets an explicit payload format
+ */
+export function hasExplicitPayloadFormat(format: PayloadFormat): boolean {
+  return format.encoding !== undefined || format.hash !== undefined;
+}
+
+/**
+ * Bytes to send to the contract's sign method for a payload
+ *
+ * @param payload - Payload string in `format.encoding`
+ * @param format - Explicit encoding/hash; if both are unset, `defaultRule` is used
+ * @param domainId - MPC domain of the chain (EdDSA signs raw messages, ECDSA 32-byte digests)
+ * @param defaultRule - The chain adapter's hashPayload
+ */
+export function resolveSignPayload(
+  payload: string,
+  format: PayloadFormat,
+  domainId: number,
+  defaultRule: (payload: string) => Uint8Array
+): Uint8Array {
+  if (!hasExplicitPayloadFormat(format)) {
+    return defaultRule(payload);
+  }
+
+  const isEddsa = domainId === DOMAIN_ED25519;
+  const encoding = format.encoding ?? 'hex';
+  if (!ENCODINGS.includes(encoding)) {
+    throw new Error(`Invalid payload encoding: ${encoding}`);
+  }
+  if (format.hash !== undefined && !HASHES.includes(format.hash)) {
+    throw new Error(`Invalid payload hash: ${format.hash}`);
+  }
+  const hash = format.hash ?? defaultHash(encoding, isEddsa);
+  if (encoding === 'prehashed-hex' && hash !== 'none') {
+    throw new Error(`Payload encoding prehashed-hex cannot be combined with hash ${hash}`);
+  }
+  if (isEddsa && encoding === 'prehashed-hex') {
+    throw new Error('Payload encoding prehashed-hex is not valid for ed25519 chains (EdDSA signs the raw message)');
+  }
+  if (isEddsa && hash !== 'none') {
+    throw new Error(`Payload hash ${hash} is not valid for ed25519 chains (EdDSA signs the raw message)`);
+  }
+
+  const bytes = applyHash(decodePayload(payload, encoding), hash);
+
+  if (isEddsa) {
+    if (bytes.length < ED25519_MIN_MESSAGE_BYTES || bytes.length > ED25519_MAX_MESSAGE_BYTES) {
+      throw new Error(
+        `Ed25519 payload must be ${ED25519_MIN_MESSAGE_BYTES}-${ED25519_MAX_MESSAGE_BYTES} bytes, got ${bytes.length}`
+      );
+    }
+  } else if (bytes.length !== 32) {
+    throw new Error(
+      `ECDSA payload must be a 32-byte digest, got ${bytes.length} bytes (set hash or use prehashed-hex)`
+    );
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a payload string, rejecting characters that are not part of the encoding
+ */
+export function decodePayload(payload: string, encoding: PayloadEncoding): Uint8Array {
+  switch (encoding) {
+    case 'prehashed-hex':
+    case 'hex': {
+      const clean = payload.startsWith('0x') ? payload.slice(2) : payload;
+      if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+        throw new Error(`Payload is not valid ${encoding}`);
+      }
+      const bytes = new Uint8Array(Buffer.from(clean, 'hex'));
+      if (encoding === 'prehashed-hex' && bytes.length !== 32) {
+        throw new Error(`Payload encoding prehashed-hex requires 32 bytes, got ${bytes.length}`);
+      }
+      return bytes;
+    }
+    case 'utf8':
+      return new Uint8Array(Buffer.from(payload, 'utf8'));
+    case 'base64':
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(payload) || payload.length % 4 !== 0) {
+        throw new Error('Payload is not valid base64');
+      }
+      return new Uint8Array(Buffer.from(payload, 'base64'));
+    default:
+      throw new Error(`Invalid payload encoding: ${encoding}`);
+  }
+}
+
+function applyHash(bytes: Uint8Array, hash: PayloadHash): Uint8Array {
+  switch (hash) {
+    case 'none':
+      return bytes;
+    case 'sha256':
+      return new Uint8Array(createHash('sha256').update(bytes).digest());
+    case 'double-sha256': {
+      const once = createHash('sha256').update(bytes).digest();
+      return new Uint8Array(createHash('sha256').update(once).digest());
+    }
+    case 'keccak256':
+      return getBytes(keccak256(bytes));
+  }
+}
+
+// Only unambiguous defaults: digests and EdDSA messages are signed as-is
+function defaultHash(encoding: PayloadEncoding, isEddsa: boolean): PayloadHash {
+  if (encoding === 'prehashed-hex' || isEddsa) {
+    return 'none';
+  }
+  throw new Error(`Payload encoding ${encoding} requires an explicit hash for ECDSA chains`);
+}
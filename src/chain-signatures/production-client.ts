@@ -0,0 +1,141 @@
+/**
+ * ProductionMPCClient - Chain Signatures on the NEAR testnet / mainnet v1.signer contracts
+ *
+ * Same NearClient, MPCService and chain adapters as ChainSignaturesSimulator; only the
+ * connection settings differ, so consumer code moves from localnet to testnet by
+ * changing config. The network preset supplies the RPC URL, contract ID and the
+ * root public keys the contract is expected to return. Before the first derivation
+ * or signature the client compares the contract's `public_key` with them, so a
+ * wrong RPC URL or contract ID fails before anything is signed.
+ *
+ * `sign` calls are paid by signerAccountId and signed by the injected `signer`
+ * (or signerPrivateKey). The contract derives keys from the caller, so
+ * request.nearAccount must be the signer account.
+ */
+
+import { ChainNetwork } from '../types';
+import { ProductionChainSignaturesConfig, ProductionNearNetwork } from '../config';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from './near-client';
+import { ChainSignaturesSimulator } from './simulator';
+
+export interface NearNetworkPreset {
+  networkId: ProductionNearNetwork;
+  rpcUrl: string;
+  mpcContractId: string;
+  /** Root public key per domain, as `public_key` returns it */
+  rootPublicKeys: Record<number, string>;
+  /** Default destination-chain network for derived addresses */
+  chainNetwork: ChainNetwork;
+}
+
+/**
+ * Public v1.signer deployments, with the secp256k1 (domain 0) and ed25519 (domain 1)
+ * root keys pinned
+ */
+export const NEAR_NETWORK_PRESETS: Record<ProductionNearNetwork, NearNetworkPreset> = {
+  testnet: {
+    networkId: 'testnet',
+    rpcUrl: 'https://rpc.testnet.near.org',
+    mpcContractId: 'v1.signer-prod.testnet',
+    rootPublicKeys: {
+      [DOMAIN_SECP256K1]:
+        'secp256k1:4NfTiv3UsGahebgTaHyD9vF8KYKMBnfd6kh94mK6xv8fGBiJB8TBtFMP5WWXz6B89Ac1fbpzPwAvoyQebemHFwx3',
+      [DOMAIN_ED25519]: 'ed25519:6vSEtQxrQj6txUMh33WC4ERyCWmNMRTdufDWAaDY3Un2',
+    },
+    chainNetwork: 'testnet',
+  },
+  mainnet: {
+    networkId: 'mainnet',
+    rpcUrl: 'https://rpc.mainnet.near.org',
+    mpcContractId: 'v1.signer',
+    rootPublicKeys: {
+      [DOMAIN_SECP256K1]:
+        'secp256k1:3tFRbMqmoa6AAALMrEFAYCEoHcqKxeW38YptwowBVBtXK1vo36HDbUWuR6EZmoK4JcH6HDkNMGGqP1ouV7VZUWya',
+      [DOMAIN_ED25519]: 'ed25519:G9hwngxWNKdmqMCmU1Yt6LPhFpayJeKFxyAV1HqMNLtF',
+    },
+    chainNetwork: 'mainnet',
+  },
+};
+
+export class ProductionMPCClient extends ChainSignaturesSimulator {
+  private preset: NearNetworkPreset;
+  private mpcContractId: string;
+  private expectedRootPublicKeys: Record<number, string>;
+  private verifyRootKeys: boolean;
+  private rootKeysVerified: Promise<void> | null = null;
+
+  constructor(config: ProductionChainSignaturesConfig) {
+    const preset = NEAR_NETWORK_PRESETS[config.nearNetwork];
+    if (!preset) {
+      throw new Error(`Unknown NEAR network for the production client: ${config.nearNetwork}`);
+    }
+    if (config.signer && !config.signerAccountId) {
+      throw new Error('signerAccountId is required with an injected signer');
+    }
+    const mpcContractId = config.mpcContractId || preset.mpcContractId;
+
+    super({
+      ...config,
+      networkId: preset.networkId,
+      rpcUrl: config.rpcUrl || preset.rpcUrl,
+      mpcContractId,
+      network: config.network || preset.chainNetwork,
+    });
+
+    this.preset = preset;
+    this.mpcContractId = mpcContractId;
+    this.expectedRootPublicKeys = config.expectedRootPublicKeys || preset.rootPublicKeys;
+    this.verifyRootKeys = config.verifyRootPublicKeys ?? true;
+
+    console.log('✅ [PRODUCTION CLIENT] Configured:', {
+      nearNetwork: preset.networkId,
+      rpcUrl: config.rpcUrl || preset.rpcUrl,
+      contractId: mpcContractId,
+      signerAccount: config.signerAccountId || 'none (view-only)',
+    });
+  }
+
+  getNearNetworkPreset(): NearNetworkPreset {
+    return this.preset;
+  }
+
+  /**
+   * Compare the contract's root keys with the expected ones (once; failures are retried)
+   *
+   * @throws If a root key differs: the RPC URL or contract ID points at another deployment
+   */
+  verifyRootPublicKeys(): Promise<void> {
+    if (!this.rootKeysVerified) {
+      this.rootKeysVerified = this.checkRootPublicKeys();
+      this.rootKeysVerified.catch(() => {
+        this.rootKeysVerified = null;
+      });
+    }
+    return this.rootKeysVerified;
+  }
+
+  protected async derivePublicKey(
+    nearAccount: string,
+    derivationPath: string,
+    domainId: number
+  ): Promise<string> {
+    // requestSignature derives the address first, so this also guards signing
+    if (this.verifyRootKeys) {
+      await this.verifyRootPublicKeys();
+    }
+    return super.derivePublicKey(nearAccount, derivationPath, domainId);
+  }
+
+  private async checkRootPublicKeys(): Promise<void> {
+    for (const [domainId, expected] of Object.entries(this.expectedRootPublicKeys)) {
+      const actual = await this.getRootPublicKey(Number(domainId));
+      if (actual !== expected) {
+        throw new Error(
+          `Root public key mismatch for ${this.mpcContractId} (domain ${domainId}) on ${this.preset.networkId}: ` +
+          `expected ${expected}, contract returned ${actual}. Check rpcUrl and mpcContractId.`
+        );
+      }
+    }
+    console.log('✅ [PRODUCTION CLIENT] Root public keys verified:', { contractId: this.mpcContractId });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Signature serialization helpers for MPC signatures
+ *
+ * The MPC network returns ECDSA signatures as { big_r: affine point, s: scalar, recovery_id }.
+ * Destination chains expect r/s/v, DER or raw bytes. These helpers convert between them.
+ */
+
+import { Signature as EthersSignature } from 'ethers';
+import {
+  Signature,
+  Secp256k1Signature,
+  Ed25519Signature,
+  EvmSignatureParts,
+  DerSignature,
+} from '../types';
+import { encodeBase58 } from './address-encoding';
+
+// secp256k1 group order
+export const SECP256K1_N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+// Bitcoin-family sighash type for signing all inputs and outputs
+export const SIGHASH_ALL = 0x01;
+
+/**
+ * ECDSA signature components as integers
+ */
+export interface EcdsaComponents {
+  r: bigint;
+  s: bigint;
+  recoveryId: number;
+}
+
+/**
+ * Extract r, s and recovery id from an MPC secp256k1 signature
+ *
+ * big_r is the compressed (33-byte) or uncompressed (65-byte) nonce point R; r = x(R).
+ * Optionally normalizes to low-S (s <= n/2), flipping the recovery id parity.
+ */
+export function toEcdsaComponents(signature: Secp256k1Signature, lowS: boolean = false): EcdsaComponents {
+  const bigR = signature.big_r.startsWith('0x') ? signature.big_r.slice(2) : signature.big_r;
+  const sHex = signature.s.startsWith('0x') ? signature.s.slice(2) : signature.s;
+
+  let rHex: string;
+  if (bigR.length === 66) {
+    rHex = bigR.slice(2);
+  } else if (bigR.length === 130) {
+    rHex = bigR.slice(2, 66);
+  } else if (bigR.length === 64) {
+    rHex = bigR;
+  } else {
+    throw new Error(`Unsupported big_r length: ${bigR.length / 2} bytes`);
+  }
+
+  const r = BigInt('0x' + rHex);
+  let s = BigInt('0x' + sHex);
+  let recoveryId = signature.recovery_id ?? 0;
+
+  if (lowS && s > SECP256K1_N / BigInt(2)) {
+    s = SECP256K1_N - s;
+    recoveryId ^= 1;
+  }
+
+  return { r, s, recoveryId };
+}
+
+/**
+ * Serialize as the 65-byte EVM signature r || s || v (v = 27 + recovery id), 0x-prefixed
+ */
+export function toEvmSignatureHex(signature: Secp256k1Signature): string {
+  const { r, s, recoveryId } = toEcdsaComponents(signature, true);
+  return EthersSignature.from({
+    r: toHex32(r),
+    s: toHex32(s),
+    v: 27 + recoveryId,
+  }).serialized;
+}
+
+/**
+ * EVM r, s, v and yParity (low-S)
+ *
+ * @param chainId - When set, v is the EIP-155 legacy value chainId * 2 + 35 + yParity
+ */
+export function toEvmSignatureParts(signature: Secp256k1Signature, chainId?: number | bigint): EvmSignatureParts {
+  const { r, s, recoveryId } = toEcdsaComponents(signature, true);
+  const yParity = (recoveryId & 1) as 0 | 1;
+  const v = chainId === undefined
+    ? 27 + yParity
+    : Number(BigInt(chainId) * BigInt(2) + BigInt(35 + yParity));
+
+  return {
+    r: toHex32(r),
+    s: toHex32(s),
+    v,
+    yParity,
+    serialized: toEvmSignatureHex(signature),
+  };
+}
+
+/**
+ * Serialize as the 64-byte compact signature r || s (low-S), hex without 0x
+ * Used by Cosmos SDK secp256k1 accounts
+ */
+export function toCompactSignatureHex(signature: Secp256k1Signature): string {
+  const { r, s } = toEcdsaComponents(signature, true);
+  return toHex32(r).slice(2) + toHex32(s).slice(2);
+}
+
+/**
+ * Serialize as a strict DER signature (BIP-66), normalized to low-S (BIP-62/146)
+ */
+export function toDerSignatureHex(signature: Secp256k1Signature): string {
+  const { r, s } = toEcdsaComponents(signature, true);
+  const rBytes = derInteger(r);
+  const sBytes = derInteger(s);
+  const body = Buffer.concat([
+    Buffer.from([0x02, rBytes.length]),
+    rBytes,
+    Buffer.from([0x02, sBytes.length]),
+    sBytes,
+  ]);
+  return Buffer.concat([Buffer.from([0x30, body.length]), body]).toString('hex');
+}
+
+/**
+ * DER signature with the sighash type byte appended (bitcoin scriptSig / witness form)
+ */
+export function toDerSignatureWithSighash(
+  signature: Secp256k1Signature,
+  sighashType: number = SIGHASH_ALL
+): DerSignature {
+  const der = toDerSignatureHex(signature);
+  return {
+    der,
+    sighashType,
+    serialized: der + sighashType.toString(16).padStart(2, '0'),
+  };
+}
+
+/**
+ * Serialize an Ed25519 signature as base58 (Solana transaction signature format)
+ */
+export function toBase58Signature(signature: Ed25519Signature): string {
+  return encodeBase58(Buffer.from(signature.signature, 'hex'));
+}
+
+/**
+ * Narrow a Signature to the secp256k1 shape or throw
+ */
+export function assertSecp256k1Signature(signature: Signature): Secp256k1Signature {
+  if (signature.scheme === 'ed25519') {
+    throw new Error('Expected a secp256k1 signature, got ed25519');
+  }
+  return signature;
+}
+
+/**
+ * Narrow a Signature to the ed25519 shape or throw
+ */
+export function assertEd25519Signature(signature: Signature): Ed25519Signature {
+  if (signature.scheme !== 'ed25519') {
+    throw new Error('Expected an ed25519 signature, got secp256k1');
+  }
+  return signature;
+}
+
+function toHex32(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
+
+function derInteger(value: bigint): Buffer {
+  let bytes = Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+  // Strip leading zeros, then re-add one if the high bit is set (DER integers are signed)
+  let offset = 0;
+  while (offset < bytes.length - 1 && bytes[offset] === 0) {
+    offset++;
+  }
+  bytes = bytes.subarray(offset);
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0x00]), bytes]);
+  }
+  return bytes;
+}
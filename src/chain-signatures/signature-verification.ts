@@ -0,0 +1,204 @@
+/**
+ * Cryptographic verification of MPC signatures
+ *
+ * Secp256k1: recover the public key from (big_r, s, recovery_id) over the 32-byte
+ * payload hash and compare it with the expected (derived) key.
+ * Ed25519: standard RFC 8032 verification over the raw message bytes.
+ * BIP340 Schnorr (Taproot, from external signers): verification under an x-only key.
+ *
+ * Results separate "malformed" (cannot be parsed / out of range) from
+ * "wrong_signer" (well-formed but produced by a different key).
+ */
+
+import { SigningKey, Signature as EthersSignature } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import {
+  Secp256k1Signature,
+  Ed25519Signature,
+  SignatureVerificationResult,
+} from '../types';
+import { compressSecp256k1PublicKey, encodeBase58 } from './address-encoding';
+import { toEcdsaComponents, SECP256K1_N } from './signature-format';
+import { parseEd25519PublicKey } from './chains/ed25519';
+
+/**
+ * Verify a secp256k1 MPC signature against the expected public key
+ *
+ * @param signature - MPC signature (big_r, s, optional recovery_id)
+ * @param payloadHash - The 32-byte hash that was signed
+ * @param publicKey - Expected signer key (contract format, hex or base58)
+ */
+export function verifySecp256k1Signature(
+  signature: Secp256k1Signature,
+  payloadHash: Uint8Array,
+  publicKey: string
+): SignatureVerificationResult {
+  let expectedKey: string;
+  try {
+    expectedKey = Buffer.from(compressSecp256k1PublicKey(publicKey)).toString('hex');
+  } catch (error) {
+    return malformed(`Invalid secp256k1 public key: ${errorMessage(error)}`);
+  }
+
+  if (payloadHash.length !== 32) {
+    return malformed(`Payload hash must be 32 bytes, got ${payloadHash.length}`);
+  }
+
+  let components;
+  try {
+    components = toEcdsaComponents(signature, true);
+  } catch (error) {
+    return malformed(errorMessage(error));
+  }
+  const { r, s } = components;
+  if (r === BigInt(0) || r >= SECP256K1_N || s === BigInt(0) || s >= SECP256K1_N) {
+    return malformed('Signature r or s is out of range');
+  }
+
+  const bigR = signature.big_r.startsWith('0x') ? signature.big_r.slice(2) : signature.big_r;
+  if (bigR.length !== 64) {
+    try {
+      SigningKey.computePublicKey('0x' + bigR);
+    } catch {
+      return malformed('big_r is not a valid secp256k1 point');
+    }
+  }
+
+  if (signature.recovery_id !== undefined && signature.recovery_id !== 0 && signature.recovery_id !== 1) {
+    return malformed(`Unsupported recovery_id: ${signature.recovery_id}`);
+  }
+
+  // Without a recovery id, either parity may be the signer
+  const recoveryIds = signature.recovery_id === undefined ? [0, 1] : [components.recoveryId];
+  let recoveredKey: string | undefined;
+
+  for (const recoveryId of recoveryIds) {
+    let recovered: string;
+    try {
+      recovered = SigningKey.recoverPublicKey(
+        payloadHash,
+        EthersSignature.from({ r: toHex32(r), s: toHex32(s), v: 27 + recoveryId })
+      );
+    } catch {
+      continue;
+    }
+
+    const contractFormat = 'secp256k1:' + encodeBase58(Buffer.from(recovered.slice(4), 'hex'));
+    recoveredKey = recoveredKey ?? contractFormat;
+
+    if (SigningKey.computePublicKey(recovered, true).slice(2) === expectedKey) {
+      return { valid: true, status: 'valid', recoveredPublicKey: contractFormat };
+    }
+  }
+
+  if (!recoveredKey) {
+    return malformed('Public key recovery failed');
+  }
+
+  return {
+    valid: false,
+    status: 'wrong_signer',
+    reason: 'Recovered public key does not match the expected key',
+    recoveredPublicKey: recoveredKey,
+  };
+}
+
+/**
+ * Verify an Ed25519 MPC signature against the expected public key
+ *
+ * @param signature - Hex-encoded 64-byte R || S signature
+ * @param message - The raw message bytes that were signed
+ * @param publicKey - Expected signer key ("ed25519:<base58>", hex or base58)
+ */
+export function verifyEd25519Signature(
+  signature: Ed25519Signature,
+  message: Uint8Array,
+  publicKey: string
+): SignatureVerificationResult {
+  let keyBytes: Uint8Array;
+  try {
+    keyBytes = parseEd25519PublicKey(publicKey);
+    ed25519.ExtendedPoint.fromHex(keyBytes);
+  } catch (error) {
+    return malformed(`Invalid ed25519 public key: ${errorMessage(error)}`);
+  }
+
+  if (!/^[0-9a-fA-F]{128}$/.test(signature.signature)) {
+    return malformed('Ed25519 signature must be 64 hex-encoded bytes');
+  }
+
+  const signatureBytes = new Uint8Array(Buffer.from(signature.signature, 'hex'));
+  try {
+    ed25519.ExtendedPoint.fromHex(signatureBytes.slice(0, 32));
+  } catch {
+    return malformed('Signature R is not a valid ed25519 point');
+  }
+  const s = BigInt('0x' + Buffer.from(signatureBytes.slice(32)).reverse().toString('hex'));
+  if (s >= ed25519.CURVE.n) {
+    return malformed('Signature S is out of range');
+  }
+
+  if (!ed25519.verify(signatureBytes, message, keyBytes)) {
+    return {
+      valid: false,
+      status: 'wrong_signer',
+      reason: 'Signature does not verify under the expected key',
+    };
+  }
+
+  return { valid: true, status: 'valid' };
+}
+
+/**
+ * Verify a BIP340 Schnorr signature against an x-only public key
+ *
+ * @param signature - 64-byte R.x || s signature
+ * @param message - The 32-byte message (e.g. BIP341 sighash) that was signed
+ * @param xOnlyPublicKey - 32-byte expected key (e.g. Taproot output key)
+ */
+export function verifyBip340Signature(
+  signature: Uint8Array,
+  message: Uint8Array,
+  xOnlyPublicKey: Uint8Array
+): SignatureVerificationResult {
+  if (signature.length !== 64) {
+    return malformed(`Schnorr signature must be 64 bytes, got ${signature.length}`);
+  }
+  if (xOnlyPublicKey.length !== 32) {
+    return malformed(`x-only public key must be 32 bytes, got ${xOnlyPublicKey.length}`);
+  }
+
+  const r = BigInt('0x' + Buffer.from(signature.slice(0, 32)).toString('hex'));
+  const s = BigInt('0x' + Buffer.from(signature.slice(32)).toString('hex'));
+  if (r >= secp256k1.CURVE.Fp.ORDER || s >= SECP256K1_N) {
+    return malformed('Signature r or s is out of range');
+  }
+  try {
+    schnorr.utils.lift_x(BigInt('0x' + Buffer.from(xOnlyPublicKey).toString('hex')));
+  } catch {
+    return malformed('x-only public key is not a valid secp256k1 point');
+  }
+
+  if (!schnorr.verify(signature, message, xOnlyPublicKey)) {
+    return {
+      valid: false,
+      status: 'wrong_signer',
+      reason: 'Signature does not verify under the expected key',
+    };
+  }
+
+  return { valid: true, status: 'valid' };
+}
+
+function malformed(reason: string): SignatureVerificationResult {
+  return { valid: false, status: 'malformed', reason };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toHex32(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
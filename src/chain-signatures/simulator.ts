@@ -11,41 +11,104 @@ import {
   IChainSignatures,
   ICrossChainExec,
   SupportedChain,
+  ChainNetwork,
   DerivedAddress,
+  DeriveAddressOptions,
   SignatureRequest,
   SignatureResponse,
+  SignatureVerificationResult,
+  EvmTransactionRequest,
+  SignEvmTransactionOptions,
+  SignedEvmTransaction,
+  SignEvmMessageOptions,
+  SignedEvmMessage,
+  SignBitcoinPsbtOptions,
+  SignedBitcoinTransaction,
 } from '../types';
-import { LocalnetConfig } from '../config';
-import { NearClient, DOMAIN_SECP256K1 } from './near-client';
+import {
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataEncoder,
+  hashMessage,
+  recoverAddress,
+} from 'ethers';
+import { NearNetworkConfig } from '../config';
+import { NearClient } from './near-client';
 import { MPCService } from './mpc-service';
-import { createHash } from 'crypto';
-import { keccak256, getAddress, computeAddress } from 'ethers';
+import { getChainAdapter } from './chain-registry';
+import { deriveChildPublicKey } from './key-derivation';
+import {
+  assertSecp256k1Signature,
+  toDerSignatureWithSighash,
+  toEvmSignatureHex,
+} from './signature-format';
+import { compressSecp256k1PublicKey, taprootTweakPublicKey } from './address-encoding';
+import { verifySecp256k1Signature, verifyBip340Signature } from './signature-verification';
+import {
+  parsePsbt,
+  computePsbtSighashes,
+  finalizePsbtTransaction,
+  taprootKeyPathWitness,
+} from './bitcoin-psbt';
+import {
+  resolveEvmChainId,
+  buildUnsignedEvmTransaction,
+  attachEvmSignature,
+} from './evm-transaction';
 
 export class ChainSignaturesSimulator implements IChainSignatures, ICrossChainExec {
-  private mpc: MPCService;
+  protected mpc: MPCService;
   private nearClient: NearClient;
   private addressCache: Map<string, DerivedAddress> = new Map();
+  private defaultNetwork: ChainNetwork;
+  private localKeyDerivation: boolean;
+  private crossCheckKeyDerivation: boolean;
+  private rootKeyCache: Map<number, Promise<string>> = new Map();
 
-  constructor(config: LocalnetConfig) {
+  constructor(config: NearNetworkConfig) {
     this.nearClient = new NearClient(
       config.rpcUrl,
       config.networkId,
       config.mpcContractId
     );
     this.mpc = new MPCService(config);
+    this.defaultNetwork = config.network || 'mainnet';
+    this.localKeyDerivation = config.localKeyDerivation ?? false;
+    this.crossCheckKeyDerivation = config.crossCheckKeyDerivation ?? false;
   }
 
   /**
    * Derive address on target chain for NEAR account
-   * Uses real v1.signer contract to get MPC-derived public key
+   * Uses real v1.signer contract to get MPC-derived public key,
+   * then the chain's registered adapter to encode the address.
+   * 
+   * The same derived key maps to different addresses per network on UTXO chains
+   * (e.g. bc1... / tb1... / bcrt1...) and per bitcoin script type, so both are
+   * part of the cache key.
    */
   async deriveAddress(
     nearAccount: string,
     chain: SupportedChain,
-    path?: string
+    path?: string,
+    options: DeriveAddressOptions = {}
   ): Promise<DerivedAddress> {
     const derivationPath = path || this.buildDefaultPath(nearAccount, chain);
-    const cacheKey = `${nearAccount}:${chain}:${derivationPath}`;
+    const network = options.network || this.defaultNetwork;
+    const adapter = getChainAdapter(chain);
+    if (options.addressType && !adapter.addressTypes?.includes(options.addressType)) {
+      throw new Error(`Address type ${options.addressType} is not supported for chain: ${chain}`);
+    }
+    if (options.hrp && !adapter.hrp) {
+      throw new Error(`Custom HRP is not supported for chain: ${chain}`);
+    }
+    const cacheKey = [
+      nearAccount,
+      chain,
+      derivationPath,
+      network,
+      options.addressType || 'default',
+      options.hrp || 'default',
+    ].join(':');
 
     if (this.addressCache.has(cacheKey)) {
       return this.addressCache.get(cacheKey)!;
@@ -55,31 +118,38 @@ export class ChainSignaturesSimulator implements IChainSignatures, ICrossChainEx
       nearAccount,
       chain,
       path: derivationPath,
+      network,
     });
 
     try {
-      // Call v1.signer contract to get MPC-derived public key
-      const publicKey = await this.nearClient.callDerivedPublicKey(
+      // Get the MPC-derived public key in the domain the chain's adapter
+      // declares (Secp256k1 or Ed25519), locally or from v1.signer
+      const publicKey = await this.derivePublicKey(
+        nearAccount,
         derivationPath,
-        DOMAIN_SECP256K1,
-        nearAccount
+        adapter.domainId
       );
 
       // Convert MPC public key to chain-specific address
-      const address = this.publicKeyToAddress(publicKey, chain);
+      const encoded = adapter.encodeAddress(publicKey, {
+        network,
+        addressType: options.addressType,
+        hrp: options.hrp,
+      });
 
       const derived: DerivedAddress = {
         chain,
-        address,
+        ...encoded,
         publicKey,
         derivationPath,
+        network,
       };
 
       this.addressCache.set(cacheKey, derived);
 
       console.log('✅ [CHAIN SIG] Address derived:', {
         chain,
-        address,
+        address: derived.address,
       });
 
       return derived;
@@ -89,6 +159,56 @@ export class ChainSignaturesSimulator implements IChainSignatures, ICrossChainEx
     }
   }
 
+  /**
+   * Resolve the derived public key for (predecessor, path, domain)
+   *
+   * With localKeyDerivation the root key is fetched once per domain and the
+   * child key is computed offline; crossCheckKeyDerivation compares the result
+   * with the contract's `derived_public_key`.
+   */
+  protected async derivePublicKey(
+    nearAccount: string,
+    derivationPath: string,
+    domainId: number
+  ): Promise<string> {
+    if (!this.localKeyDerivation) {
+      return this.nearClient.callDerivedPublicKey(derivationPath, domainId, nearAccount);
+    }
+
+    const rootKey = await this.getRootPublicKey(domainId);
+    const publicKey = deriveChildPublicKey(rootKey, nearAccount, derivationPath, domainId);
+
+    if (this.crossCheckKeyDerivation) {
+      const contractKey = await this.nearClient.callDerivedPublicKey(
+        derivationPath,
+        domainId,
+        nearAccount
+      );
+      if (contractKey !== publicKey) {
+        throw new Error(
+          `Local key derivation mismatch for ${nearAccount}/${derivationPath}: ` +
+          `local ${publicKey}, contract ${contractKey}`
+        );
+      }
+    }
+
+    return publicKey;
+  }
+
+  /**
+   * Root MPC public key per domain, fetched once and reused
+   */
+  protected getRootPublicKey(domainId: number): Promise<string> {
+    let rootKey = this.rootKeyCache.get(domainId);
+    if (!rootKey) {
+      rootKey = this.nearClient.getRootPublicKey(domainId);
+      // Don't cache failures so a later call can retry
+      rootKey.catch(() => this.rootKeyCache.delete(domainId));
+      this.rootKeyCache.set(domainId, rootKey);
+    }
+    return rootKey;
+  }
+
   /**
    * Build default derivation path
    * 
@@ -105,168 +225,254 @@ export class ChainSignaturesSimulator implements IChainSignatures, ICrossChainEx
   }
 
   /**
-   * Convert MPC public key to chain-specific address
-   * 
-   * For EVM chains: Uses Keccak-256 of the uncompressed public key (64 bytes),
-   * then takes the last 20 bytes as the address. This matches ethers.computeAddress().
+   * Request signature for cross-chain transaction
    */
-  private publicKeyToAddress(publicKey: string, chain: SupportedChain): string {
-    switch (chain) {
-      case 'ethereum':
-      case 'polygon':
-      case 'arbitrum':
-      case 'optimism':
-        return this.toEvmAddress(publicKey);
-      case 'bitcoin':
-      case 'dogecoin':
-        return this.toBech32Address(publicKey, chain);
-      case 'ripple':
-        return this.toRippleAddress(publicKey);
-      default:
-        throw new Error(`Unsupported chain: ${chain}`);
-    }
+  async requestSignature(request: SignatureRequest): Promise<SignatureResponse> {
+    console.log('📝 [CHAIN SIG] Signature request:', {
+      account: request.nearAccount,
+      chain: request.chain,
+    });
+
+    const derived = await this.deriveAddress(
+      request.nearAccount,
+      request.chain,
+      request.derivationPath
+    );
+
+    const { signature, cost, participants } = await this.mpc.generateSignatureWithCost(request);
+    const adapter = getChainAdapter(request.chain);
+
+    return {
+      signature,
+      chain: request.chain,
+      formattedSignature: adapter.formatSignature(signature),
+      formatted: adapter.formatSignatures?.(signature),
+      publicKey: derived.publicKey,
+      signedPayload: request.payload,
+      encoding: request.encoding,
+      hash: request.hash,
+      cost,
+      participants,
+    };
   }
 
   /**
-   * Convert MPC public key to EVM address (Ethereum, Polygon, Arbitrum, Optimism)
-   * 
-   * EVM standard:
-   * 1. Take uncompressed public key (65 bytes with 04 prefix, or 64 bytes raw x,y)
-   * 2. Keccak-256 hash of the 64-byte x,y coordinates
-   * 3. Take the last 20 bytes (40 hex chars) as the address
-   * 4. Apply EIP-55 checksum casing
+   * Build, MPC-sign and serialize an EVM transaction (EIP-1559 or legacy)
+   *
+   * The chainId comes from the chain adapter for the network unless the request
+   * sets one; the keccak256 of the unsigned serialization is what the MPC signs.
+   * The returned rawTransaction is ready for eth_sendRawTransaction.
    */
-  private toEvmAddress(publicKey: string): string {
-    // Remove 'secp256k1:' or 'ed25519:' prefix if present (NEAR key format)
-    let cleanKey = publicKey;
-    if (publicKey.includes(':')) {
-      cleanKey = publicKey.split(':')[1];
-    }
+  async signEvmTransaction(
+    nearAccount: string,
+    chain: SupportedChain,
+    txRequest: EvmTransactionRequest,
+    options: SignEvmTransactionOptions = {}
+  ): Promise<SignedEvmTransaction> {
+    const adapter = getChainAdapter(chain);
+    const network = options.network || this.defaultNetwork;
+    const chainId = resolveEvmChainId(adapter, network, txRequest.chainId);
+    const unsignedTx = buildUnsignedEvmTransaction(txRequest, chainId);
+
+    console.log('📝 [CHAIN SIG] EVM transaction signature request:', {
+      account: nearAccount,
+      chain,
+      chainId,
+      type: unsignedTx.type,
+    });
 
-    // Check if hex or base58
-    const isHex = /^[0-9a-fA-F]+$/.test(cleanKey);
-    
-    let keyBytes: Uint8Array;
-    if (isHex) {
-      keyBytes = Buffer.from(cleanKey, 'hex');
-    } else {
-      // Base58 encoded - decode it
-      keyBytes = this.decodeBase58(cleanKey);
-    }
+    const derived = await this.deriveAddress(nearAccount, chain, options.derivationPath);
+    const signature = await this.mpc.generateSignature({
+      nearAccount,
+      chain,
+      payload: unsignedTx.unsignedHash,
+      derivationPath: options.derivationPath,
+    });
 
-    // Handle different key formats:
-    // - 65 bytes: 04 prefix + 64 bytes (x,y) - use 64 bytes
-    // - 64 bytes: raw x,y coordinates - use as-is
-    // - 33 bytes: compressed (02/03 prefix + 32 bytes x) - need to decompress
-    let uncompressedXY: Uint8Array;
-    
-    if (keyBytes.length === 65 && keyBytes[0] === 0x04) {
-      // Uncompressed with prefix: skip the 04 prefix
-      uncompressedXY = keyBytes.slice(1);
-    } else if (keyBytes.length === 64) {
-      // Already raw x,y
-      uncompressedXY = keyBytes;
-    } else if (keyBytes.length === 33 && (keyBytes[0] === 0x02 || keyBytes[0] === 0x03)) {
-      // Compressed key - use ethers computeAddress which handles this
-      const hexKey = '0x' + Buffer.from(keyBytes).toString('hex');
-      return computeAddress(hexKey);
-    } else {
-      // Fallback: try to use ethers directly with whatever we have
-      const hexKey = '0x' + Buffer.from(keyBytes).toString('hex');
-      try {
-        return computeAddress(hexKey);
-      } catch {
-        throw new Error(`Unsupported public key format: length=${keyBytes.length}`);
-      }
+    const signedTx = attachEvmSignature(unsignedTx, assertSecp256k1Signature(signature));
+    if (signedTx.from !== derived.address) {
+      throw new Error(
+        `Signed transaction sender ${signedTx.from} does not match derived address ${derived.address}`
+      );
     }
 
-    // Keccak-256 hash of the 64-byte x,y coordinates
-    const hash = keccak256(uncompressedXY);
-    
-    // Take last 20 bytes (40 hex chars) and apply checksum
-    const addressLower = '0x' + hash.slice(-40);
-    
-    // Apply EIP-55 checksum casing
-    return getAddress(addressLower);
+    console.log('✅ [CHAIN SIG] EVM transaction signed:', { chain, hash: signedTx.hash });
+
+    return {
+      rawTransaction: signedTx.serialized,
+      hash: signedTx.hash!,
+      from: signedTx.from,
+      chainId,
+      type: unsignedTx.type as 0 | 2,
+      signature,
+    };
   }
 
   /**
-   * Decode base58 string to bytes (for NEAR public key format)
+   * Sign an EIP-191 personal message ("\x19Ethereum Signed Message:\n" + length + message)
+   *
+   * @param message - UTF-8 string, or bytes signed as-is
    */
-  private decodeBase58(str: string): Uint8Array {
-    const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-    const ALPHABET_MAP = new Map<string, number>();
-    for (let i = 0; i < ALPHABET.length; i++) {
-      ALPHABET_MAP.set(ALPHABET[i], i);
-    }
+  async signMessage(
+    nearAccount: string,
+    message: string | Uint8Array,
+    options: SignEvmMessageOptions = {}
+  ): Promise<SignedEvmMessage> {
+    return this.signEvmDigest(nearAccount, hashMessage(message), options);
+  }
 
-    let result = BigInt(0);
-    for (const char of str) {
-      const value = ALPHABET_MAP.get(char);
-      if (value === undefined) {
-        throw new Error(`Invalid base58 character: ${char}`);
-      }
-      result = result * BigInt(58) + BigInt(value);
-    }
+  /**
+   * Sign EIP-712 typed data (permits, orders, ...)
+   *
+   * An EIP712Domain entry in types is ignored; the domain type is derived from `domain`.
+   */
+  async signTypedData(
+    nearAccount: string,
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+    options: SignEvmMessageOptions = {}
+  ): Promise<SignedEvmMessage> {
+    const { EIP712Domain, ...messageTypes } = types;
+    return this.signEvmDigest(nearAccount, TypedDataEncoder.hash(domain, messageTypes, value), options);
+  }
 
-    // Convert to bytes
-    const hex = result.toString(16).padStart(2, '0');
-    const bytes = new Uint8Array(hex.length / 2);
-    for (let i = 0; i < bytes.length; i++) {
-      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  /**
+   * MPC-sign a 32-byte EVM digest and check it recovers to the derived address
+   */
+  private async signEvmDigest(
+    nearAccount: string,
+    digest: string,
+    options: SignEvmMessageOptions
+  ): Promise<SignedEvmMessage> {
+    const chain = options.chain || 'ethereum';
+    if (!getChainAdapter(chain).chainIds) {
+      throw new Error(`Chain ${chain} is not an EVM chain`);
     }
 
-    return bytes;
-  }
+    console.log('📝 [CHAIN SIG] EVM message signature request:', { account: nearAccount, chain });
 
-  private toBech32Address(publicKey: string, chain: SupportedChain): string {
-    // For Bitcoin/Dogecoin, use SHA-256 + RIPEMD-160 (placeholder)
-    // Full BIP-0173 bech32 implementation needed for production
-    const hash = createHash('sha256')
-      .update(Buffer.from(publicKey, 'hex'))
-      .digest('hex');
-    const prefix = chain === 'bitcoin' ? 'bc1q' : 'dgb1q';
-    const addr = hash.substring(0, 38);
-    return `${prefix}${addr}`;
-  }
+    const derived = await this.deriveAddress(nearAccount, chain, options.derivationPath);
+    const mpcSignature = await this.mpc.generateSignature({
+      nearAccount,
+      chain,
+      payload: digest,
+      derivationPath: options.derivationPath,
+    });
 
-  private toRippleAddress(publicKey: string): string {
-    // Ripple uses similar to Bitcoin but with different alphabet
-    const hash = createHash('sha256')
-      .update(Buffer.from(publicKey, 'hex'))
-      .digest('hex');
-    return `r${hash.substring(0, 33)}`;
+    const signature = toEvmSignatureHex(assertSecp256k1Signature(mpcSignature));
+    const recovered = recoverAddress(digest, signature);
+    if (recovered !== derived.address) {
+      throw new Error(`Message signature recovers to ${recovered}, expected derived address ${derived.address}`);
+    }
+
+    return { signature, digest, address: derived.address, mpcSignature };
   }
 
   /**
-   * Request signature for cross-chain transaction
+   * Sign every input of a PSBT spending the derived bitcoin P2WPKH or P2TR address
+   *
+   * Each P2WPKH input's BIP143 sighash is signed with its own MPC request, checked
+   * against the derived key, and placed in the witness. P2TR key-path inputs need
+   * BIP340 Schnorr signatures, which the MPC does not produce: their BIP341 sighash
+   * goes to options.taprootSigner and the result is checked against the output key.
+   * Returns the finalized transaction.
+   *
+   * @param psbt - Base64 or hex BIP-174 PSBT with WITNESS_UTXO (or NON_WITNESS_UTXO) per input
    */
-  async requestSignature(request: SignatureRequest): Promise<SignatureResponse> {
-    console.log('📝 [CHAIN SIG] Signature request:', {
-      account: request.nearAccount,
-      chain: request.chain,
+  async signBitcoinPsbt(
+    nearAccount: string,
+    psbt: string,
+    options: SignBitcoinPsbtOptions = {}
+  ): Promise<SignedBitcoinTransaction> {
+    const derived = await this.deriveAddress(nearAccount, 'bitcoin', options.derivationPath, {
+      addressType: 'p2wpkh',
+    });
+    const publicKey = compressSecp256k1PublicKey(derived.publicKey);
+    const parsed = parsePsbt(psbt);
+    const sighashes = computePsbtSighashes(parsed, publicKey);
+
+    console.log('📝 [CHAIN SIG] PSBT signature request:', {
+      account: nearAccount,
+      address: derived.address,
+      inputs: sighashes.length,
     });
 
-    const derived = await this.deriveAddress(
-      request.nearAccount,
-      request.chain,
-      request.derivationPath
-    );
+    const taprootInputs = sighashes.filter((input) => input.scriptType === 'p2tr');
+    if (taprootInputs.length > 0 && !options.taprootSigner) {
+      throw new Error(
+        `PSBT inputs ${taprootInputs.map((input) => input.index).join(', ')} are Taproot key-path spends: ` +
+        `they need BIP340 Schnorr signatures, which the MPC secp256k1 (ECDSA) domain does not produce. ` +
+        `Pass options.taprootSigner to sign them.`
+      );
+    }
+    const outputKey = taprootTweakPublicKey(publicKey);
 
-    const signature = await this.mpc.generateSignature(request);
+    const inputs: SignedBitcoinTransaction['inputs'] = [];
+    const witnesses: Uint8Array[][] = [];
 
-    return {
-      signature,
-      publicKey: derived.publicKey,
-      signedPayload: request.payload,
-    };
+    // One signature per input, sequentially (each MPC signature is a separate sign() call)
+    for (const { index, scriptType, sighash, sighashType } of sighashes) {
+      const sighashHex = Buffer.from(sighash).toString('hex');
+
+      if (scriptType === 'p2tr') {
+        const schnorrSignature = await options.taprootSigner!({ index, sighash, sighashType, outputKey });
+        const verification = verifyBip340Signature(schnorrSignature, sighash, outputKey);
+        if (!verification.valid) {
+          throw new Error(`Schnorr signature for PSBT input ${index} is invalid: ${verification.reason}`);
+        }
+
+        inputs.push({ scriptType, sighash: sighashHex, schnorrSignature: Buffer.from(schnorrSignature).toString('hex') });
+        witnesses.push(taprootKeyPathWitness(schnorrSignature, sighashType));
+        continue;
+      }
+
+      const signature = assertSecp256k1Signature(await this.mpc.generateSignature({
+        nearAccount,
+        chain: 'bitcoin',
+        payload: sighashHex,
+        derivationPath: options.derivationPath,
+      }));
+
+      const verification = verifySecp256k1Signature(signature, sighash, derived.publicKey);
+      if (!verification.valid) {
+        throw new Error(`MPC signature for PSBT input ${index} is invalid: ${verification.reason}`);
+      }
+
+      inputs.push({ scriptType, sighash: sighashHex, signature });
+      witnesses.push([Buffer.from(toDerSignatureWithSighash(signature, sighashType).serialized, 'hex'), publicKey]);
+    }
+
+    const { rawTransaction, txid } = finalizePsbtTransaction(parsed, witnesses);
+
+    console.log('✅ [CHAIN SIG] PSBT signed:', { txid });
+
+    return { rawTransaction, txid, inputs };
   }
 
   /**
    * Verify signature validity
    */
   async verifySignature(response: SignatureResponse, payload: string): Promise<boolean> {
-    return this.mpc.verifySignature(response.signature, payload, response.publicKey);
+    const result = await this.verifySignatureDetailed(response, payload);
+    return result.valid;
+  }
+
+  /**
+   * Verify signature and report whether a failure is a malformed signature
+   * or a valid signature from a different key
+   */
+  async verifySignatureDetailed(
+    response: SignatureResponse,
+    payload: string
+  ): Promise<SignatureVerificationResult> {
+    return this.mpc.verifySignatureDetailed(
+      response.signature,
+      payload,
+      response.publicKey,
+      response.chain,
+      { encoding: response.encoding, hash: response.hash }
+    );
   }
 
   /**
@@ -276,21 +482,7 @@ export class ChainSignaturesSimulator implements IChainSignatures, ICrossChainEx
     chain: SupportedChain;
     correlateTo: string;
   }): Promise<string> {
-    const prefix = {
-      ethereum: '0x',
-      polygon: '0x',
-      arbitrum: '0x',
-      optimism: '0x',
-      bitcoin: '',
-      dogecoin: '',
-      ripple: 'r',
-    }[params.chain] || '';
-
-    const hash = createHash('sha256')
-      .update(`${params.chain}:${params.correlateTo}`)
-      .digest('hex');
-
-    return prefix + hash.substring(0, 64);
+    return getChainAdapter(params.chain).formatTxHash(`${params.chain}:${params.correlateTo}`);
   }
 
   /**
@@ -0,0 +1,338 @@
+/**
+ * SimulatedMpcCluster - in-process t-of-n MPC network with node availability controls
+ *
+ * The seeded root keys of InMemoryMPCService are split into Shamir shares, one per
+ * virtual node. A sign request asks every node for its share; the coordinator checks
+ * each share against the node's public verification share (share·G) and signs once
+ * it holds `threshold` valid shares:
+ * 1. Reconstruct the root secret from the shares (Lagrange interpolation at 0)
+ * 2. Apply the contract's tweak (root + epsilon) and sign like InMemoryMPCService
+ *
+ * Node status:
+ * - online: answers immediately
+ * - slow: answers after slowDelayMs
+ * - offline: never answers
+ * - byzantine: answers with a corrupted share, which fails verification
+ *
+ * Below threshold the request times out after timeoutMs, like a `sign` call that
+ * the MPC network never resumes. Addresses and signatures match InMemoryMPCService
+ * with the same seed.
+ *
+ * This simulates availability, not the threshold ECDSA/EdDSA protocols: the
+ * coordinator sees the reconstructed secret. signWithDerivedKey bypasses the nodes.
+ */
+
+import { createHash } from 'crypto';
+import { SigningKey } from 'ethers';
+import { ed25519 } from '@noble/curves/ed25519';
+import { SignatureRequest, Signature } from '../types';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from './near-client';
+import { InMemoryMPCService, DEFAULT_IN_MEMORY_SEED } from './in-memory';
+import { GeneratedSignature } from './mpc-service';
+import { getChainAdapter } from './chain-registry';
+import { deriveEpsilon } from './key-derivation';
+import { SECP256K1_N } from './signature-format';
+import { resolveSignPayload } from './payload-encoding';
+
+const DOMAINS = [DOMAIN_SECP256K1, DOMAIN_ED25519];
+
+export type SimulatedNodeStatus = 'online' | 'offline' | 'slow' | 'byzantine';
+
+export interface SimulatedMpcClusterConfig {
+  /** Seed of the root keys (default: DEFAULT_IN_MEMORY_SEED) */
+  seed?: string;
+
+  /** Node count, or node account IDs (default: 3 nodes, mpc-node-0 .. mpc-node-2) */
+  participants?: number | string[];
+
+  /** Shares required to sign (default: 2, like LocalnetOrchestrator's mpcThreshold) */
+  threshold?: number;
+
+  /** How long a request waits for threshold shares (default: 1000ms) */
+  timeoutMs?: number;
+
+  /** Response delay of 'slow' nodes (default: 250ms) */
+  slowDelayMs?: number;
+}
+
+export interface SimulatedMpcNode {
+  accountId: string;
+  /** Shamir x-coordinate of the node's share (1-based) */
+  index: number;
+  status: SimulatedNodeStatus;
+}
+
+/**
+ * Outcome of one sign request on the cluster
+ */
+export interface ClusterSignSession {
+  signature: Signature;
+  /** Nodes whose shares produced the signature, in response order */
+  participants: string[];
+  /** Nodes that answered with a share that failed verification */
+  rejected: string[];
+  /** Nodes that had not answered when the session closed */
+  unresponsive: string[];
+}
+
+interface NodeKeyShares {
+  /** Share per domain */
+  shares: Map<number, bigint>;
+  /** share·G per domain, known to the coordinator */
+  verificationShares: Map<number, string>;
+}
+
+export class SimulatedMpcCluster extends InMemoryMPCService {
+  private nodes: SimulatedMpcNode[];
+  private keyShares: Map<string, NodeKeyShares> = new Map();
+  private threshold: number;
+  private timeoutMs: number;
+  private slowDelayMs: number;
+
+  constructor(config: SimulatedMpcClusterConfig = {}) {
+    const seed = config.seed || DEFAULT_IN_MEMORY_SEED;
+    super(seed);
+
+    const participants = config.participants ?? 3;
+    const accountIds = typeof participants === 'number'
+      ? Array.from({ length: participants }, (_, i) => `mpc-node-${i}`)
+      : participants;
+    this.threshold = config.threshold ?? 2;
+    this.timeoutMs = config.timeoutMs ?? 1000;
+    this.slowDelayMs = config.slowDelayMs ?? 250;
+
+    if (new Set(accountIds).size !== accountIds.length) {
+      throw new Error('Duplicate participant account IDs in simulated MPC cluster');
+    }
+    if (!Number.isInteger(this.threshold) || this.threshold < 1 || this.threshold > accountIds.length) {
+      throw new Error(`Invalid threshold ${this.threshold} for ${accountIds.length} participants`);
+    }
+
+    this.nodes = accountIds.map((accountId, i) => ({ accountId, index: i + 1, status: 'online' }));
+    this.dealShares(seed);
+
+    console.log('✅ [MPC CLUSTER] Simulated cluster ready:', {
+      participants: accountIds,
+      threshold: this.threshold,
+    });
+  }
+
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  getNodes(): SimulatedMpcNode[] {
+    return this.nodes.map((node) => ({ ...node }));
+  }
+
+  setNodeStatus(accountId: string, status: SimulatedNodeStatus): void {
+    this.getNode(accountId).status = status;
+    console.log(`⚙️  [MPC CLUSTER] ${accountId} is now ${status}`);
+  }
+
+  /**
+   * Number of nodes that will answer with a valid share
+   */
+  getHealthyNodeCount(): number {
+    return this.nodes.filter((node) => node.status === 'online' || node.status === 'slow').length;
+  }
+
+  /**
+   * Sign through the cluster; the participants are reported on the result
+   */
+  async generateSignatureWithCost(request: SignatureRequest): Promise<GeneratedSignature> {
+    const path = this.buildDerivationPath(request.chain, request.derivationPath);
+    const adapter = getChainAdapter(request.chain);
+    const payloadBytes = resolveSignPayload(
+      request.payload,
+      { encoding: request.encoding, hash: request.hash },
+      adapter.domainId,
+      adapter.hashPayload
+    );
+    const session = await this.signWithCluster(request.nearAccount, path, adapter.domainId, payloadBytes);
+
+    return { signature: session.signature, participants: session.participants };
+  }
+
+  /**
+   * Collect shares from the nodes and sign contract-level bytes with the child key
+   * of (predecessor, path)
+   *
+   * @throws If fewer than `threshold` valid shares arrive within timeoutMs
+   */
+  signWithCluster(
+    predecessor: string,
+    path: string,
+    domainId: number,
+    payload: Uint8Array
+  ): Promise<ClusterSignSession> {
+    if (!DOMAINS.includes(domainId)) {
+      return Promise.reject(new Error(`Unsupported domain for cluster signing: ${domainId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const accepted: Array<{ node: SimulatedMpcNode; share: bigint }> = [];
+      const rejected: string[] = [];
+      const answered = new Set<string>();
+      const timers: NodeJS.Timeout[] = [];
+      let closed = false;
+
+      const close = (): string[] => {
+        closed = true;
+        timers.forEach((timer) => clearTimeout(timer));
+        return this.nodes.map((node) => node.accountId).filter((id) => !answered.has(id));
+      };
+
+      const onShare = (node: SimulatedMpcNode, share: bigint) => {
+        if (closed) {
+          return;
+        }
+        answered.add(node.accountId);
+        if (!this.verifyShare(node, domainId, share)) {
+          console.warn(`⚠️  [MPC CLUSTER] Rejected invalid share from ${node.accountId}`);
+          rejected.push(node.accountId);
+          return;
+        }
+        accepted.push({ node, share });
+        if (accepted.length < this.threshold) {
+          return;
+        }
+
+        const unresponsive = close();
+        try {
+          const root = interpolateAtZero(
+            accepted.map(({ node: n, share: y }) => ({ x: BigInt(n.index), y })),
+            domainOrder(domainId)
+          );
+          const secret = this.secretFor(domainId, deriveEpsilon(predecessor, path), root);
+          const participants = accepted.map(({ node: n }) => n.accountId);
+
+          console.log('✅ [MPC CLUSTER] Signature generated:', { predecessor, path, participants });
+          resolve({ signature: this.signWithSecret(secret, domainId, payload), participants, rejected, unresponsive });
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      for (const node of this.nodes) {
+        if (node.status === 'offline') {
+          continue;
+        }
+        const delay = node.status === 'slow' ? this.slowDelayMs : 0;
+        const share = this.shareFrom(node, domainId);
+        timers.push(setTimeout(() => onShare(node, share), delay));
+      }
+
+      timers.push(setTimeout(() => {
+        const unresponsive = close();
+        const message =
+          `Signature request timed out after ${this.timeoutMs}ms: ` +
+          `${accepted.length} of ${this.threshold} required shares ` +
+          `(participants: ${accepted.map(({ node }) => node.accountId).join(', ') || 'none'}; ` +
+          `rejected: ${rejected.join(', ') || 'none'}; ` +
+          `unresponsive: ${unresponsive.join(', ') || 'none'})`;
+        console.error('❌ [MPC CLUSTER]', message);
+        reject(new Error(message));
+      }, this.timeoutMs));
+    });
+  }
+
+  private getNode(accountId: string): SimulatedMpcNode {
+    const node = this.nodes.find((n) => n.accountId === accountId);
+    if (!node) {
+      throw new Error(`Unknown participant: ${accountId}`);
+    }
+    return node;
+  }
+
+  /**
+   * What a node sends back for a request (byzantine nodes corrupt their share)
+   */
+  private shareFrom(node: SimulatedMpcNode, domainId: number): bigint {
+    const share = this.keyShares.get(node.accountId)!.shares.get(domainId)!;
+    return node.status === 'byzantine' ? (share + BigInt(1)) % domainOrder(domainId) : share;
+  }
+
+  private verifyShare(node: SimulatedMpcNode, domainId: number, share: bigint): boolean {
+    return this.keyShares.get(node.accountId)!.verificationShares.get(domainId) === mulBase(share, domainId);
+  }
+
+  /**
+   * Split each root secret with a degree threshold-1 polynomial whose
+   * coefficients come from the seed
+   */
+  private dealShares(seed: string): void {
+    for (const node of this.nodes) {
+      this.keyShares.set(node.accountId, { shares: new Map(), verificationShares: new Map() });
+    }
+
+    for (const domainId of DOMAINS) {
+      const order = domainOrder(domainId);
+      const coefficients = [this.secretFor(domainId, undefined)];
+      for (let i = 1; i < this.threshold; i++) {
+        coefficients.push(coefficientScalar(seed, domainId, i, order));
+      }
+
+      for (const node of this.nodes) {
+        const share = evaluatePolynomial(coefficients, BigInt(node.index), order);
+        const keyShares = this.keyShares.get(node.accountId)!;
+        keyShares.shares.set(domainId, share);
+        keyShares.verificationShares.set(domainId, mulBase(share, domainId));
+      }
+    }
+  }
+}
+
+function domainOrder(domainId: number): bigint {
+  return domainId === DOMAIN_ED25519 ? ed25519.CURVE.n : SECP256K1_N;
+}
+
+function mulBase(scalar: bigint, domainId: number): string {
+  if (domainId === DOMAIN_ED25519) {
+    return ed25519.ExtendedPoint.BASE.multiply(scalar).toHex();
+  }
+  return SigningKey.computePublicKey('0x' + scalar.toString(16).padStart(64, '0'), true);
+}
+
+function coefficientScalar(seed: string, domainId: number, degree: number, order: bigint): bigint {
+  const digest = createHash('sha512').update(`${seed}:shamir:${domainId}:${degree}`).digest();
+  return (BigInt('0x' + digest.toString('hex')) % (order - BigInt(1))) + BigInt(1);
+}
+
+function evaluatePolynomial(coefficients: bigint[], x: bigint, order: bigint): bigint {
+  // Horner's rule, highest degree first
+  return coefficients.reduceRight((acc, coefficient) => (acc * x + coefficient) % order, BigInt(0));
+}
+
+function interpolateAtZero(points: Array<{ x: bigint; y: bigint }>, order: bigint): bigint {
+  let secret = BigInt(0);
+  for (const { x: xi, y: yi } of points) {
+    let numerator = BigInt(1);
+    let denominator = BigInt(1);
+    for (const { x: xj } of points) {
+      if (xj === xi) {
+        continue;
+      }
+      numerator = (numerator * xj) % order;
+      denominator = (denominator * mod(xj - xi, order)) % order;
+    }
+    secret = (secret + yi * numerator % order * modInverse(denominator, order)) % order;
+  }
+  return secret;
+}
+
+function mod(value: bigint, order: bigint): bigint {
+  return ((value % order) + order) % order;
+}
+
+function modInverse(value: bigint, order: bigint): bigint {
+  // Extended Euclid; order is prime and value is non-zero
+  let [a, b] = [mod(value, order), order];
+  let [x, y] = [BigInt(1), BigInt(0)];
+  while (b !== BigInt(0)) {
+    const q = a / b;
+    [a, b] = [b, a - q * b];
+    [x, y] = [y, x - q * y];
+  }
+  return mod(x, order);
+}
@@ -0,0 +1,182 @@
+/**
+ * viem account adapter for MPC-derived EVM accounts
+ *
+ * toMpcViemAccount returns an object with the shape of a viem `LocalAccount`
+ * (type 'local', source 'custom'), so `createWalletClient({ account })` and
+ * `walletClient.sendTransaction` sign through the v1.signer MPC flow.
+ * The types below mirror the parts of viem's account interface this uses,
+ * so the package does not depend on viem itself.
+ */
+
+import { getBytes, SigningKey } from 'ethers';
+import { EvmTransactionRequest, SupportedChain, ChainNetwork } from '../types';
+import { MpcEvmSigningClient } from './ethers-signer';
+import { compressSecp256k1PublicKey } from './address-encoding';
+
+type Hex = `0x${string}`;
+
+/** viem SignableMessage: a UTF-8 string or raw bytes */
+export type ViemSignableMessage = string | { raw: Hex | Uint8Array };
+
+/** Subset of viem's TransactionSerializable used for signing */
+export interface ViemTransactionRequest {
+  to?: Hex | null;
+  nonce?: number;
+  gas?: bigint;
+  value?: bigint;
+  data?: Hex;
+  chainId?: number;
+  type?: 'legacy' | 'eip2930' | 'eip1559' | 'eip4844' | 'eip7702';
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  accessList?: ReadonlyArray<{ address: Hex; storageKeys: readonly Hex[] }>;
+}
+
+/** viem signTypedData parameters */
+export interface ViemTypedDataDefinition {
+  domain?: Record<string, unknown>;
+  types: Record<string, ReadonlyArray<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * viem LocalAccount-compatible MPC account
+ */
+export interface MpcViemAccount {
+  address: Hex;
+  publicKey: Hex;
+  source: 'custom';
+  type: 'local';
+  nearAccount: string;
+  signMessage(args: { message: ViemSignableMessage }): Promise<Hex>;
+  signTransaction(transaction: ViemTransactionRequest, options?: unknown): Promise<Hex>;
+  signTypedData(typedData: ViemTypedDataDefinition): Promise<Hex>;
+}
+
+export interface MpcViemAccountOptions {
+  /** EVM chain of the derived account (default: ethereum) */
+  chain?: SupportedChain;
+  /** Network used to look up the chain ID when a tx does not set one */
+  network?: ChainNetwork;
+}
+
+/**
+ * Create a viem account for the MPC-derived EVM address of (nearAccount, path)
+ *
+ * @example
+ * const account = await toMpcViemAccount(simulator, 'user.near', 'ethereum-1');
+ * const wallet = createWalletClient({ account, chain: sepolia, transport: http() });
+ * await wallet.sendTransaction({ to, value: parseEther('0.01') });
+ */
+export async function toMpcViemAccount(
+  client: MpcEvmSigningClient,
+  nearAccount: string,
+  path?: string,
+  options: MpcViemAccountOptions = {}
+): Promise<MpcViemAccount> {
+  const chain = options.chain || 'ethereum';
+  const derived = await client.deriveAddress(nearAccount, chain, path);
+  const signOptions = { chain, derivationPath: path };
+
+  return {
+    address: derived.address as Hex,
+    publicKey: SigningKey.computePublicKey(compressSecp256k1PublicKey(derived.publicKey), false) as Hex,
+    source: 'custom',
+    type: 'local',
+    nearAccount,
+
+    async signMessage({ message }) {
+      const payload = typeof message === 'string' ? message : getBytes(message.raw);
+      const signed = await client.signMessage(nearAccount, payload, signOptions);
+      return signed.signature as Hex;
+    },
+
+    // viem passes chain-specific serializers as the second argument; MPC signing
+    // supports the standard legacy and EIP-1559 encodings only
+    async signTransaction(transaction) {
+      const signed = await client.signEvmTransaction(
+        nearAccount,
+        chain,
+        toEvmTransactionRequest(transaction),
+        { network: options.network, derivationPath: path }
+      );
+      return signed.rawTransaction as Hex;
+    },
+
+    async signTypedData({ domain = {}, types, primaryType, message }) {
+      const signed = await client.signTypedData(
+        nearAccount,
+        domain,
+        typesReachableFrom(types, primaryType),
+        message,
+        signOptions
+      );
+      return signed.signature as Hex;
+    },
+  };
+}
+
+/**
+ * Map a viem transaction to signEvmTransaction's request shape
+ */
+function toEvmTransactionRequest(tx: ViemTransactionRequest): EvmTransactionRequest {
+  const type = tx.type ?? (tx.maxFeePerGas !== undefined || tx.maxPriorityFeePerGas !== undefined
+    ? 'eip1559'
+    : 'legacy');
+  if (type !== 'legacy' && type !== 'eip1559') {
+    throw new Error(`Unsupported transaction type for MPC signing: ${type}`);
+  }
+  if (tx.nonce === undefined || tx.gas === undefined) {
+    throw new Error('Transaction nonce and gas must be set before signing');
+  }
+
+  return {
+    to: tx.to ?? undefined,
+    nonce: tx.nonce,
+    gasLimit: tx.gas,
+    value: tx.value,
+    data: tx.data,
+    chainId: tx.chainId,
+    type: type === 'legacy' ? 0 : 2,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    accessList: tx.accessList?.map(({ address, storageKeys }) => ({ address, storageKeys: [...storageKeys] })),
+  };
+}
+
+/**
+ * Keep only primaryType and the struct types it references
+ *
+ * viem names the primary type explicitly and allows unrelated types in `types`;
+ * ethers infers it from `types` and rejects more than one root, so the unused
+ * types are dropped before hashing.
+ */
+function typesReachableFrom(
+  types: ViemTypedDataDefinition['types'],
+  primaryType: string
+): Record<string, Array<{ name: string; type: string }>> {
+  if (!types[primaryType]) {
+    throw new Error(`Typed data primaryType ${primaryType} is not defined in types`);
+  }
+
+  const reachable: Record<string, Array<{ name: string; type: string }>> = {};
+  const pending = [primaryType];
+  while (pending.length > 0) {
+    const name = pending.pop() as string;
+    if (reachable[name]) {
+      continue;
+    }
+    reachable[name] = [...types[name]];
+    for (const field of types[name]) {
+      // Strip array suffixes: Person[] and Person[2] reference Person
+      const fieldType = field.type.replace(/(\[\d*\])+$/, '');
+      if (types[fieldType] && !reachable[fieldType]) {
+        pending.push(fieldType);
+      }
+    }
+  }
+  return reachable;
+}
@@ -2,20 +2,24 @@
  * Environment-based configuration
  */
 
+import type { Signer } from 'near-api-js';
+import { ChainNetwork } from './types';
+
 export interface ChainSignaturesConfig {
   useSimulators: boolean;
   mpcServiceUrl?: string;
+  /** CHAIN_SIGNATURES_BACKEND: 'in-memory' selects InMemoryChainSignatures (default: localnet) */
+  backend: 'localnet' | 'in-memory';
 }
 
 /**
- * LocalnetConfig - Configuration for localnet NEAR + MPC infrastructure
- * Used by near-intents-simulator and other consumers
+ * NearNetworkConfig - NEAR connection and signing settings shared by the localnet
+ * simulator and the production client
  */
-export interface LocalnetConfig {
+export interface NearNetworkConfig {
   rpcUrl: string;
-  networkId: 'localnet';
+  networkId: string;
   mpcContractId: string;
-  mpcNodes: string[];
   headers?: Record<string, string>;
   
   /**
@@ -26,9 +30,108 @@ export interface LocalnetConfig {
   
   /**
    * Private key for the signer account (ed25519:... format)
-   * Required for signing operations
+   * Required for signing operations unless `signer` is set
    */
   signerPrivateKey?: string;
+
+  /**
+   * Signs transactions for signerAccountId instead of signerPrivateKey
+   * (e.g. a KeyPairSigner, or a KMS / wallet-backed near-api-js Signer)
+   */
+  signer?: Signer;
+
+  /**
+   * Default destination-chain network for derived addresses (default: mainnet)
+   * Use 'testnet' / 'regtest' when testing against bitcoin or dogecoin test nodes
+   */
+  network?: ChainNetwork;
+
+  /**
+   * Derive child keys locally from the root key (one `public_key` view call per domain)
+   * instead of calling `derived_public_key` for every address (default: false)
+   */
+  localKeyDerivation?: boolean;
+
+  /**
+   * With localKeyDerivation, also query `derived_public_key` and throw on mismatch
+   */
+  crossCheckKeyDerivation?: boolean;
+
+  /**
+   * Deposit (yoctoNEAR, decimal string) attached to `sign` when the contract has no
+   * `experimental_signature_deposit` view (default: '1', what current contracts require)
+   */
+  signDepositFallback?: string;
+}
+
+/**
+ * LocalnetConfig - Configuration for localnet NEAR + MPC infrastructure
+ * Used by near-intents-simulator and other consumers
+ */
+export interface LocalnetConfig extends NearNetworkConfig {
+  networkId: 'localnet';
+  mpcNodes: string[];
+}
+
+/**
+ * ProductionChainSignaturesConfig - v1.signer on NEAR testnet / mainnet
+ * Selected by createChainSignaturesClient when `nearNetwork` is set
+ *
+ * RPC URL, contract and expected root keys come from the network preset;
+ * the other fields mean the same as in LocalnetConfig.
+ */
+export interface ProductionChainSignaturesConfig
+  extends Partial<Omit<NearNetworkConfig, 'networkId'>> {
+  nearNetwork: ProductionNearNetwork;
+
+  /**
+   * Root public keys the contract must return per domain (default: the preset's keys)
+   */
+  expectedRootPublicKeys?: Record<number, string>;
+
+  /**
+   * Compare the contract's `public_key` with the expected root keys before the
+   * first derivation or signature (default: true)
+   */
+  verifyRootPublicKeys?: boolean;
+}
+
+export type ProductionNearNetwork = 'testnet' | 'mainnet';
+
+/**
+ * InMemoryChainSignaturesConfig - in-process MPC backend for unit tests (no NEAR RPC)
+ * Selected by createChainSignaturesClient when `backend` is 'in-memory'
+ */
+export interface InMemoryChainSignaturesConfig {
+  backend: 'in-memory';
+
+  /**
+   * Seed for the root secp256k1 / ed25519 keys; the same seed always yields
+   * the same addresses and signatures (default: 'cross-chain-simulator')
+   */
+  seed?: string;
+
+  /**
+   * Default destination-chain network for derived addresses (default: mainnet)
+   */
+  network?: ChainNetwork;
+}
+
+/**
+ * Parse NearNetworkConfig.signDepositFallback (yoctoNEAR as a decimal integer string)
+ *
+ * @throws If the value is not a non-negative integer, e.g. "1 NEAR" or "1.5"
+ */
+export function parseSignDepositFallback(value: string | undefined): bigint | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(
+      `Invalid signDepositFallback "${value}": expected yoctoNEAR as a decimal integer string (e.g. "1")`
+    );
+  }
+  return BigInt(value.trim());
 }
 
 export function getConfig(): ChainSignaturesConfig {
@@ -37,6 +140,27 @@ export function getConfig(): ChainSignaturesConfig {
   return {
     useSimulators,
     mpcServiceUrl: process.env.MPC_SERVICE_URL,
+    backend: process.env.CHAIN_SIGNATURES_BACKEND === 'in-memory' ? 'in-memory' : 'localnet',
+  };
+}
+
+/**
+ * Production client settings from the environment
+ *
+ * NEAR_NETWORK: 'testnet' (default) or 'mainnet'
+ * NEAR_SIGNER_ACCOUNT_ID / NEAR_SIGNER_PRIVATE_KEY: credentials for `sign` calls
+ * (pass `signer` in code to keep the key out of the environment)
+ */
+export function getProductionConfig(): ProductionChainSignaturesConfig {
+  const nearNetwork = (process.env.NEAR_NETWORK || 'testnet').trim();
+  if (nearNetwork !== 'testnet' && nearNetwork !== 'mainnet') {
+    throw new Error(`NEAR_NETWORK must be 'testnet' or 'mainnet' for the production client, got: ${nearNetwork}`);
+  }
+
+  return {
+    nearNetwork,
+    signerAccountId: process.env.NEAR_SIGNER_ACCOUNT_ID,
+    signerPrivateKey: process.env.NEAR_SIGNER_PRIVATE_KEY,
   };
 }
 
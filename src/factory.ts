@@ -4,37 +4,42 @@
 
 import { 
   getConfig, 
+  getProductionConfig,
   LocalnetConfig, 
+  InMemoryChainSignaturesConfig,
+  ProductionChainSignaturesConfig,
   getNearRpcUrl, 
   getMpcContractId, 
   getMpcNodes 
 } from './config';
 import { ChainSignaturesSimulator } from './chain-signatures/simulator';
-import { IChainSignatures, ICrossChainExec, SupportedChain, DerivedAddress, SignatureRequest, SignatureResponse } from './types';
-
-export class ProductionMPCClient implements IChainSignatures, ICrossChainExec {
-  async deriveAddress(nearAccount: string, chain: SupportedChain, path?: string): Promise<DerivedAddress> {
-    throw new Error('Production client not yet implemented');
-  }
-  async requestSignature(request: SignatureRequest): Promise<SignatureResponse> {
-    throw new Error('Production client not yet implemented');
-  }
-  async verifySignature(response: SignatureResponse, payload: string): Promise<boolean> {
-    throw new Error('Production client not yet implemented');
-  }
-  async simulateDestinationTx(params: { chain: SupportedChain; correlateTo: string }): Promise<string> {
-    throw new Error('Production client not yet implemented');
-  }
-  async estimateFees(params: { origin: string; dest: string; amount: string }): Promise<{ fee: string; slippage: number }> {
-    throw new Error('Production client not yet implemented');
-  }
-}
+import { InMemoryChainSignatures } from './chain-signatures/in-memory';
+import { ProductionMPCClient } from './chain-signatures/production-client';
+import { IChainSignatures, ICrossChainExec } from './types';
 
+/**
+ * Create a Chain Signatures client
+ *
+ * `{ backend: 'in-memory' }` (or CHAIN_SIGNATURES_BACKEND=in-memory) selects the
+ * in-process MPC backend; `{ nearNetwork: 'testnet' | 'mainnet' }` (or
+ * USE_PRODUCTION_SIMULATORS=true with NEAR_NETWORK) selects the production
+ * client; otherwise the simulator runs against localnet.
+ */
 export function createChainSignaturesClient(
-  config?: LocalnetConfig
+  config?: LocalnetConfig | InMemoryChainSignaturesConfig | ProductionChainSignaturesConfig
 ): IChainSignatures & ICrossChainExec {
   const envConfig = getConfig();
 
+  if (config && 'backend' in config) {
+    return new InMemoryChainSignatures(config);
+  }
+  if (config && 'nearNetwork' in config) {
+    return new ProductionMPCClient(config);
+  }
+  if (!config && envConfig.backend === 'in-memory') {
+    return new InMemoryChainSignatures({ backend: 'in-memory' });
+  }
+
   if (envConfig.useSimulators) {
     // Use provided config or create default from environment
     if (!config) {
@@ -47,6 +52,6 @@ export function createChainSignaturesClient(
     }
     return new ChainSignaturesSimulator(config);
   } else {
-    return new ProductionMPCClient();
+    return new ProductionMPCClient(getProductionConfig());
   }
 }
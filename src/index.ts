@@ -11,26 +11,137 @@ export * from './types';
 
 // Chain Signatures Client
 export { ChainSignaturesSimulator } from './chain-signatures/simulator';
-export { ProductionMPCClient, createChainSignaturesClient } from './factory';
+export {
+  InMemoryChainSignatures,
+  InMemoryMPCService,
+  DEFAULT_IN_MEMORY_SEED,
+} from './chain-signatures/in-memory';
+export {
+  SimulatedMpcCluster,
+  type SimulatedMpcClusterConfig,
+  type SimulatedMpcNode,
+  type SimulatedNodeStatus,
+  type ClusterSignSession,
+} from './chain-signatures/threshold-cluster';
+export {
+  ProductionMPCClient,
+  NEAR_NETWORK_PRESETS,
+  type NearNetworkPreset,
+} from './chain-signatures/production-client';
+export { createChainSignaturesClient } from './factory';
 
 // NEAR Client (for direct contract interaction)
 export { 
   NearClient,
   DOMAIN_SECP256K1,
   DOMAIN_ED25519,
+  DEFAULT_SIGN_DEPOSIT_FALLBACK,
   type DerivedPublicKeyResponse,
   type RootPublicKeyResponse,
   type MPCSignature,
+  type MPCEd25519Signature,
   type SignRequestParams,
+  type SignCallOptions,
+  type WithSignCost,
 } from './chain-signatures/near-client';
 
 // MPC Service
-export { MPCService } from './chain-signatures/mpc-service';
+export { MPCService, type GeneratedSignature } from './chain-signatures/mpc-service';
+
+// Chain adapter registry
+export {
+  registerChain,
+  getChainAdapter,
+  getRegisteredChains,
+} from './chain-signatures/chain-registry';
+export {
+  createEvmChainAdapter,
+  toEvmAddress,
+  createCosmosChainAdapter,
+  toCosmosAddress,
+  type CosmosChainAdapterOptions,
+  type CosmosKeyType,
+  toTronAddress,
+  toLitecoinAddress,
+  toBitcoinCashAddress,
+  hashPrehashedOrSha256,
+  hashPrehashedOrKeccak256,
+  hashBip143Sighash,
+  hashForkIdSighash,
+  decodeRawMessage,
+  hexTxHash,
+  base58TxHash,
+  evmSignatureFormats,
+  derSignatureFormats,
+  compactSignatureFormats,
+} from './chain-signatures/chains';
+export {
+  toEcdsaComponents,
+  toEvmSignatureHex,
+  toEvmSignatureParts,
+  toDerSignatureHex,
+  toDerSignatureWithSighash,
+  toCompactSignatureHex,
+  toBase58Signature,
+  SIGHASH_ALL,
+} from './chain-signatures/signature-format';
+export {
+  MpcEthersSigner,
+  type MpcEvmSigningClient,
+  type MpcSignerOptions,
+} from './chain-signatures/ethers-signer';
+export {
+  toMpcViemAccount,
+  type MpcViemAccount,
+  type MpcViemAccountOptions,
+} from './chain-signatures/viem-account';
+export {
+  resolveEvmChainId,
+  buildUnsignedEvmTransaction,
+  attachEvmSignature,
+} from './chain-signatures/evm-transaction';
+export {
+  parsePsbt,
+  parseTransaction,
+  serializeTransaction,
+  computeTxId,
+  computePsbtSighashes,
+  computeBip143Sighash,
+  computeBip341Sighash,
+  finalizeP2wpkhTransaction,
+  finalizePsbtTransaction,
+  taprootKeyPathWitness,
+  type Psbt,
+  type PsbtInputSighash,
+  type BitcoinTransaction,
+  type BitcoinTxInput,
+  type BitcoinTxOutput,
+} from './chain-signatures/bitcoin-psbt';
+export {
+  resolveSignPayload,
+  decodePayload,
+} from './chain-signatures/payload-encoding';
+export {
+  verifySecp256k1Signature,
+  verifyEd25519Signature,
+  verifyBip340Signature,
+} from './chain-signatures/signature-verification';
+export {
+  deriveEpsilon,
+  deriveChildPublicKey,
+  EPSILON_DERIVATION_PREFIX,
+} from './chain-signatures/key-derivation';
 
 // Config
 export { 
   getConfig,
+  getProductionConfig,
+  parseSignDepositFallback,
+  NearNetworkConfig,
   LocalnetConfig,
+  InMemoryChainSignaturesConfig,
+  ProductionChainSignaturesConfig,
+  ProductionNearNetwork,
   getNearRpcUrl,
   getMpcContractId,
   getMpcNodes,
@@ -44,5 +155,11 @@ export {
 export {
   KMSKeyManager,
   ContractDeployer,
-  LocalnetOrchestrator
+  LocalnetOrchestrator,
+  StandInRpcServer,
+  type StandInRpcServerOptions,
+  type InjectedTxError,
+  FakeMpcResponder,
+  type FakeMpcResponderConfig,
+  type PendingSignRequest,
 } from './localnet';
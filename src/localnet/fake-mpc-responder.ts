@@ -0,0 +1,401 @@
+/**
+ * FakeMpcResponder - answers yielded v1.signer sign requests without MPC nodes
+ *
+ * The contract's `sign` yields until a participant calls `respond` with a signature
+ * that verifies against the derived key. This responder stands in for the MPC
+ * network on a single neard localnet:
+ * 1. Poll final blocks and scan chunk receipts for `sign` calls to the contract
+ *    (a direct call arrives as the action receipt of its transaction, a cross-contract
+ *    call as its own receipt, so receipts cover both and each request is seen once)
+ * 2. Sign the payload with root + epsilon(predecessor, path) from seeded root keys
+ *    (the same keys as InMemoryChainSignatures)
+ * 3. Submit `respond(request, response)` from a participant account
+ *
+ * The contract must be running with the responder's root public keys (e.g. via
+ * `init_running`); start() checks `public_key` and fails fast on a mismatch.
+ *
+ * Contract API (near/mpc): respond(request: { tweak, payload, domain_id }, response)
+ * - tweak: the 32-byte epsilon as a byte array
+ * - payload: { Ecdsa: hex } or { Eddsa: hex }
+ * - response: { Secp256k1: { big_r: { affine_point }, s: { scalar }, recovery_id } }
+ *   or { Ed25519: { signature: [64 bytes] } }
+ */
+
+import { connect, Near, Account, keyStores, KeyPair } from 'near-api-js';
+import { Signature } from '../types';
+import { InMemoryMPCService, DEFAULT_IN_MEMORY_SEED } from '../chain-signatures/in-memory';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { deriveEpsilon } from '../chain-signatures/key-derivation';
+
+const RESPOND_GAS = BigInt('100000000000000'); // 100 TGas
+
+export interface FakeMpcResponderConfig {
+  rpcUrl: string;
+  networkId: string;
+  mpcContractId: string;
+
+  /**
+   * Participant account that submits `respond` (the contract only accepts
+   * responses from participants)
+   */
+  responderAccountId: string;
+  responderPrivateKey: string;
+
+  /** Seed of the root keys registered in the contract (default: DEFAULT_IN_MEMORY_SEED) */
+  seed?: string;
+
+  /** Block polling interval (default: 500ms) */
+  pollIntervalMs?: number;
+
+  /** Check the contract's `public_key` against the seeded root keys on start (default: true) */
+  verifyRootKeys?: boolean;
+}
+
+/**
+ * A `sign` call observed on chain
+ */
+export interface PendingSignRequest {
+  /** ID of the receipt the call arrived in */
+  id: string;
+  /** Account the contract derives the key for (env::predecessor_account_id) */
+  predecessor: string;
+  path: string;
+  domainId: number;
+  /** Payload bytes as the contract received them (32-byte digest or raw EdDSA message) */
+  payload: Uint8Array;
+}
+
+/**
+ * Receipt in a `chunk` RPC response (the fields the responder reads)
+ */
+interface ChunkReceipt {
+  receipt_id: string;
+  predecessor_id: string;
+  receiver_id: string;
+  /** Data receipts have no Action */
+  receipt: { Action?: { actions: unknown[] } };
+}
+
+export class FakeMpcResponder {
+  private near: Near | null = null;
+  private account: Account | null = null;
+  private mpc: InMemoryMPCService;
+  private lastHeight: number | null = null;
+  private handled: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<number> | null = null;
+  private running = false;
+
+  constructor(private config: FakeMpcResponderConfig) {
+    this.mpc = new InMemoryMPCService(config.seed || DEFAULT_IN_MEMORY_SEED);
+  }
+
+  /**
+   * Root public key the contract must have registered for a domain
+   */
+  getRootPublicKey(domainId: number = DOMAIN_SECP256K1): string {
+    return this.mpc.getRootPublicKey(domainId);
+  }
+
+  /**
+   * Connect, check the root keys and start polling from the current final block
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    await this.initialize();
+
+    if (this.config.verifyRootKeys ?? true) {
+      await this.verifyRootKeys();
+    }
+
+    const block = await this.near!.connection.provider.block({ finality: 'final' });
+    this.lastHeight = block.header.height;
+    this.running = true;
+    this.scheduleNextPoll();
+
+    console.log('✅ [FAKE MPC] Responder started:', {
+      contractId: this.config.mpcContractId,
+      responder: this.config.responderAccountId,
+      fromHeight: this.lastHeight,
+    });
+  }
+
+  /**
+   * Stop polling; waits for an in-flight poll to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.polling) {
+      await this.polling.catch(() => undefined);
+    }
+    console.log('🛑 [FAKE MPC] Responder stopped');
+  }
+
+  /**
+   * Scan the final blocks since the last poll and respond to every new sign request
+   *
+   * @returns Number of responses submitted
+   */
+  async pollOnce(): Promise<number> {
+    await this.initialize();
+    const provider = this.near!.connection.provider;
+
+    const finalBlock = await provider.block({ finality: 'final' });
+    const toHeight = finalBlock.header.height;
+    const fromHeight = this.lastHeight === null ? toHeight : this.lastHeight + 1;
+
+    let responded = 0;
+    for (let height = fromHeight; height <= toHeight; height++) {
+      for (const request of await this.findSignRequests(height)) {
+        if (this.handled.has(request.id)) {
+          continue;
+        }
+        this.handled.add(request.id);
+        if (await this.respond(request)) {
+          responded++;
+        }
+      }
+      this.lastHeight = height;
+    }
+    return responded;
+  }
+
+  /**
+   * Sign calls to the contract in the receipts of the chunks included at a block height
+   *
+   * Chunk transactions are not scanned: the same call shows up again as a receipt
+   * in a later chunk, under a different ID.
+   */
+  async findSignRequests(height: number): Promise<PendingSignRequest[]> {
+    await this.initialize();
+    const provider = this.near!.connection.provider;
+
+    let block;
+    try {
+      block = await provider.block({ blockId: height });
+    } catch (error) {
+      // Skipped heights have no block; near-api-js TypedErrors carry the RPC error name in `type`
+      if (error instanceof Error) {
+        const type = 'type' in error && typeof error.type === 'string' ? error.type : '';
+        if (/UNKNOWN_BLOCK|DB Not Found/.test(error.message + type)) {
+          return [];
+        }
+      }
+      throw error;
+    }
+
+    const requests: PendingSignRequest[] = [];
+    for (const chunkHeader of block.chunks as Array<{ chunk_hash: string; height_included: number }>) {
+      if (chunkHeader.height_included !== height) {
+        continue;
+      }
+      const chunk = await provider.chunk(chunkHeader.chunk_hash);
+
+      const receipts: ChunkReceipt[] = chunk.receipts;
+      for (const receipt of receipts) {
+        if (receipt.receiver_id === this.config.mpcContractId && receipt.receipt?.Action) {
+          requests.push(...this.parseSignActions(receipt.receipt_id, receipt.predecessor_id, receipt.receipt.Action.actions));
+        }
+      }
+    }
+    return requests;
+  }
+
+  /**
+   * Sign a request with the derived key and submit `respond`
+   *
+   * @returns Whether the contract accepted the response
+   */
+  async respond(request: PendingSignRequest): Promise<boolean> {
+    await this.initialize();
+
+    const signature = this.mpc.signWithDerivedKey(request.predecessor, request.path, request.domainId, request.payload);
+    const payloadHex = Buffer.from(request.payload).toString('hex');
+    const args = {
+      request: {
+        tweak: Array.from(deriveEpsilon(request.predecessor, request.path)),
+        payload: request.domainId === DOMAIN_ED25519 ? { Eddsa: payloadHex } : { Ecdsa: payloadHex },
+        domain_id: request.domainId,
+      },
+      response: toSignatureResponse(signature),
+    };
+
+    console.log('📝 [FAKE MPC] Responding to sign request:', {
+      id: request.id,
+      predecessor: request.predecessor,
+      path: request.path,
+      domainId: request.domainId,
+    });
+
+    try {
+      await this.account!.functionCall({
+        contractId: this.config.mpcContractId,
+        methodName: 'respond',
+        args,
+        gas: RESPOND_GAS,
+      });
+      console.log('✅ [FAKE MPC] Response accepted:', { id: request.id });
+      return true;
+    } catch (error) {
+      // The request may have timed out or been answered already; keep serving others
+      console.error('❌ [FAKE MPC] respond failed:', {
+        id: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.near) {
+      return;
+    }
+
+    const keyStore = new keyStores.InMemoryKeyStore();
+    await keyStore.setKey(
+      this.config.networkId,
+      this.config.responderAccountId,
+      KeyPair.fromString(this.config.responderPrivateKey as `ed25519:${string}`)
+    );
+    this.near = await connect({
+      networkId: this.config.networkId,
+      nodeUrl: this.config.rpcUrl,
+      keyStore,
+      headers: {},
+    });
+    this.account = await this.near.account(this.config.responderAccountId);
+  }
+
+  /**
+   * The contract's root keys must be the seeded ones, or `respond` fails signature verification.
+   * The ed25519 domain is optional (not every contract has it).
+   */
+  private async verifyRootKeys(): Promise<void> {
+    for (const domainId of [DOMAIN_SECP256K1, DOMAIN_ED25519]) {
+      let contractKey: string;
+      try {
+        contractKey = await this.account!.viewFunction({
+          contractId: this.config.mpcContractId,
+          methodName: 'public_key',
+          args: { domain_id: domainId },
+        });
+      } catch (error) {
+        if (domainId === DOMAIN_SECP256K1) {
+          throw new Error(
+            `Failed to read contract root key: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        continue;
+      }
+
+      const expected = this.mpc.getRootPublicKey(domainId);
+      if (contractKey !== expected) {
+        throw new Error(
+          `Contract root key for domain ${domainId} is ${contractKey}, but the responder seed ` +
+          `produces ${expected}. Initialize the contract with the responder's root keys.`
+        );
+      }
+    }
+  }
+
+  private scheduleNextPoll(): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      this.polling = this.pollOnce();
+      try {
+        await this.polling;
+      } catch (error) {
+        console.error('❌ [FAKE MPC] Poll failed:', error instanceof Error ? error.message : String(error));
+      } finally {
+        this.polling = null;
+        this.scheduleNextPoll();
+      }
+    }, this.config.pollIntervalMs ?? 500);
+  }
+
+  /**
+   * `sign` FunctionCall actions in an action receipt
+   * (RPC views encode args as base64 JSON)
+   */
+  private parseSignActions(id: string, predecessor: string, actions: unknown[]): PendingSignRequest[] {
+    const requests: PendingSignRequest[] = [];
+    for (const action of actions || []) {
+      const call = isRecord(action) ? action.FunctionCall : undefined;
+      if (!isRecord(call) || call.method_name !== 'sign' || typeof call.args !== 'string') {
+        continue;
+      }
+      try {
+        const { request } = JSON.parse(Buffer.from(call.args, 'base64').toString('utf8'));
+        requests.push({ id, predecessor, ...parseSignRequest(request) });
+      } catch (error) {
+        console.warn('⚠️  [FAKE MPC] Ignoring malformed sign call:', {
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return requests;
+  }
+}
+
+/**
+ * Normalize the `sign` argument (legacy `payload` byte array, or `payload_v2`)
+ */
+function parseSignRequest(request: unknown): Pick<PendingSignRequest, 'path' | 'domainId' | 'payload'> {
+  if (!isRecord(request) || typeof request.path !== 'string') {
+    throw new Error('sign request has no path');
+  }
+  const domainId = request.domain_id ?? request.key_version ?? DOMAIN_SECP256K1;
+  if (typeof domainId !== 'number') {
+    throw new Error('sign request domain_id is not a number');
+  }
+
+  const payloadV2 = isRecord(request.payload_v2) ? request.payload_v2 : {};
+  let payload: Uint8Array;
+  if (payloadV2.Eddsa !== undefined) {
+    payload = decodeHex(payloadV2.Eddsa, 'payload_v2.Eddsa');
+  } else if (payloadV2.Ecdsa !== undefined) {
+    payload = decodeHex(payloadV2.Ecdsa, 'payload_v2.Ecdsa');
+  } else if (Array.isArray(request.payload) && request.payload.every((byte) => Number.isInteger(byte))) {
+    payload = Uint8Array.from(request.payload);
+  } else {
+    throw new Error('sign request has no payload');
+  }
+
+  return { path: request.path, domainId, payload };
+}
+
+function decodeHex(value: unknown, field: string): Uint8Array {
+  if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error(`sign request ${field} is not hex`);
+  }
+  return Buffer.from(value, 'hex');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Signature in the contract's SignatureResponse enum shape
+ */
+function toSignatureResponse(signature: Signature): unknown {
+  if (signature.scheme === 'ed25519') {
+    return { Ed25519: { signature: Array.from(Buffer.from(signature.signature, 'hex')) } };
+  }
+  return {
+    Secp256k1: {
+      big_r: { affine_point: signature.big_r.toUpperCase() },
+      s: { scalar: signature.s.toUpperCase() },
+      recovery_id: signature.recovery_id,
+    },
+  };
+}
@@ -5,4 +5,5 @@
 export { KMSKeyManager, KMSKeyManagerConfig } from './kms-key-manager';
 export { ContractDeployer, ContractDeployerConfig } from './contract-deployer';
 export { LocalnetOrchestrator, OrchestratorConfig } from './orchestrator';
-
+export { StandInRpcServer, StandInRpcServerOptions, InjectedTxError } from './stand-in-rpc-server';
+export { FakeMpcResponder, FakeMpcResponderConfig, PendingSignRequest } from './fake-mpc-responder';
@@ -0,0 +1,863 @@
+/**
+ * StandInRpcServer - local NEAR JSON-RPC stand-in with a v1.signer contract
+ *
+ * Speaks enough NEAR JSON-RPC for NearClient, MpcSetup and
+ * LocalnetOrchestrator.healthCheck to run unchanged against http://127.0.0.1:<port>:
+ * - status, block, gas_price
+ * - query: view_account, view_access_key, view_access_key_list, call_function
+ *   (public_key, derived_public_key, state, experimental_signature_deposit)
+ * - send_tx / broadcast_tx_commit: borsh-decoded, signature- and nonce-checked
+ *   transactions; `sign`, `init` and `vote_add_domains` on the contract
+ * - tx / EXPERIMENTAL_tx_status: stored outcomes (with receipt details)
+ * - GET /health, so the server URL also passes as an MPC node URL
+ *
+ * Signatures come from InMemoryMPCService (seeded root keys, contract epsilon
+ * derivation) and are returned in realistic receipts_outcome SuccessValues.
+ * Transaction failures can be injected to exercise retry paths.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { transactions } from 'near-api-js';
+import { Signature } from '../types';
+import { InMemoryMPCService, DEFAULT_IN_MEMORY_SEED } from '../chain-signatures/in-memory';
+import { DOMAIN_SECP256K1, DOMAIN_ED25519 } from '../chain-signatures/near-client';
+import { decodeBase58, encodeBase58 } from '../chain-signatures/address-encoding';
+import { ParticipantInfo } from './mpc-setup';
+
+const GAS_PRICE = BigInt(100_000_000); // yoctoNEAR per gas
+const TX_GAS_BURNT = BigInt(2_428_000_000_000);
+const RECEIPT_GAS_BURNT = BigInt(5_200_000_000_000);
+const REFUND_GAS_BURNT = BigInt(223_182_562_500);
+const EMPTY_CODE_HASH = '11111111111111111111111111111111';
+
+/**
+ * Transaction errors the stand-in can inject (nearcore InvalidTxError variants)
+ */
+export type InjectedTxError = 'InvalidChain' | 'InvalidNonce' | 'Expired';
+
+export interface StandInRpcServerOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  host?: string;
+  mpcContractId?: string;
+  /** Seed for the in-memory root keys (default: DEFAULT_IN_MEMORY_SEED) */
+  seed?: string;
+  /**
+   * Deposit (yoctoNEAR) the contract requires per sign request. When set, the
+   * contract exposes `experimental_signature_deposit` and refunds any surplus;
+   * when unset it requires 1 yoctoNEAR and has no deposit view, like current contracts.
+   */
+  signatureDeposit?: string;
+  /** Start with the contract initialized (default: true) */
+  initialized?: boolean;
+  /** Participants in the contract state when initialized */
+  participants?: ParticipantInfo[];
+  threshold?: number;
+}
+
+/**
+ * Borsh-decoded transaction (byte fields decode as plain arrays)
+ */
+interface DecodedTransaction {
+  signerId: string;
+  publicKey: { ed25519Key?: { data: number[] } };
+  nonce: bigint;
+  receiverId: string;
+  blockHash: number[];
+  actions: Array<{
+    functionCall?: { methodName: string; args: number[]; gas: bigint; deposit: bigint };
+    transfer?: { deposit: bigint };
+  }>;
+}
+
+interface StandInAccount {
+  balance: bigint;
+  /** Full-access keys ("ed25519:...") -> nonce; empty accepts any key */
+  keys: Map<string, bigint>;
+  codeHash: string;
+}
+
+interface Block {
+  height: number;
+  hash: string;
+  prevHash: string;
+  timestamp: bigint;
+}
+
+interface StoredTransaction {
+  outcome: Record<string, unknown>;
+  receipts: Record<string, unknown>[];
+}
+
+/**
+ * JSON-RPC 2.0 request envelope
+ */
+interface JsonRpcRequest {
+  id: string | number | null;
+  method?: string;
+  /** Named params, or positional params for the older methods (tx, block, broadcast_tx_commit) */
+  params?: Record<string, unknown> | unknown[];
+}
+
+/** `query` params (the fields the stand-in reads) */
+interface QueryParams {
+  request_type: string;
+  account_id: string;
+  public_key: string;
+  method_name: string;
+  args_base64?: string;
+}
+
+/** View call arguments of public_key / derived_public_key */
+interface ViewArgs {
+  domain_id?: number;
+  predecessor?: string;
+  path?: string;
+}
+
+/**
+ * `sign` request (the contract's SignRequestArgs)
+ */
+interface SignRequest {
+  path: string;
+  domain_id?: number;
+  payload_v2?: { Ecdsa?: string; Eddsa?: string };
+  /** Legacy 32-byte payload as a byte array */
+  payload?: number[];
+}
+
+/** `init` arguments: the contract's ThresholdParameters */
+interface InitArgs {
+  parameters?: {
+    participants?: { participants?: Array<[string, number, { sign_pk: string; url: string }]> };
+    threshold?: number;
+  };
+}
+
+class RpcError extends Error {
+  constructor(readonly body: Record<string, unknown>) {
+    super(String(body.data));
+  }
+}
+
+export class StandInRpcServer {
+  readonly mpcContractId: string;
+  private options: StandInRpcServerOptions;
+  private mpc: InMemoryMPCService;
+  private server: http.Server | null = null;
+  private accounts: Map<string, StandInAccount> = new Map();
+  private blocks: Block[] = [];
+  private transactions: Map<string, StoredTransaction> = new Map();
+  private injectedErrors: InjectedTxError[] = [];
+  private contractState: Record<string, unknown> | null = null;
+
+  /** Contract function calls executed so far, in order */
+  readonly calls: Array<{ signerId: string; methodName: string; args: unknown; deposit: string }> = [];
+
+  constructor(options: StandInRpcServerOptions = {}) {
+    this.options = options;
+    this.mpcContractId = options.mpcContractId || 'v1.signer.localnet';
+    this.mpc = new InMemoryMPCService(options.seed || DEFAULT_IN_MEMORY_SEED);
+
+    this.accounts.set(this.mpcContractId, {
+      balance: BigInt(10) ** BigInt(25),
+      keys: new Map(),
+      codeHash: encodeBase58(createHash('sha256').update('v1.signer stand-in').digest()),
+    });
+    if (options.initialized ?? true) {
+      this.setParticipants(options.participants || [], options.threshold);
+    }
+    this.produceBlock();
+  }
+
+  /**
+   * Start listening; resolves with the RPC URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    const server = http.createServer((req, res) => this.handleHttp(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host || '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+
+    console.log('✅ [STAND-IN RPC] Listening:', { url: this.url, contractId: this.mpcContractId });
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Stand-in RPC server is not running');
+    }
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  /**
+   * Register an account; with publicKeys only those full-access keys may sign for it
+   *
+   * @param balance - yoctoNEAR (default: 100 NEAR)
+   */
+  addAccount(accountId: string, options: { publicKeys?: string[]; balance?: string } = {}): void {
+    this.accounts.set(accountId, {
+      balance: BigInt(options.balance ?? (BigInt(10) ** BigInt(26)).toString()),
+      keys: new Map((options.publicKeys || []).map((key) => [key, BigInt(0)])),
+      codeHash: EMPTY_CODE_HASH,
+    });
+  }
+
+  getBalance(accountId: string): bigint {
+    return this.getAccount(accountId).balance;
+  }
+
+  /**
+   * Replace the participants in the contract state (e.g. to simulate drift after node replacement)
+   */
+  setParticipants(participants: ParticipantInfo[], threshold: number = this.options.threshold ?? 2): void {
+    this.contractState = {
+      Running: {
+        participants: {
+          next_id: participants.length,
+          participants: participants.map((p) => [p.accountId, p.index, { sign_pk: p.signPk, url: p.url }]),
+        },
+        threshold,
+        domains: [
+          { id: DOMAIN_SECP256K1, scheme: 'Secp256k1' },
+          { id: DOMAIN_ED25519, scheme: 'Ed25519' },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Reject the next `count` transactions with a nearcore InvalidTxError
+   */
+  injectTxError(error: InjectedTxError, count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.injectedErrors.push(error);
+    }
+  }
+
+  /**
+   * Root public key of a domain, as the contract's `public_key` returns it
+   */
+  getRootPublicKey(domainId: number = DOMAIN_SECP256K1): string {
+    return this.mpc.getRootPublicKey(domainId);
+  }
+
+  // ─── HTTP / JSON-RPC ─────────────────────────────────────────────────────
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('OK');
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405);
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const send = (response: Record<string, unknown>) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+      };
+
+      let request: JsonRpcRequest;
+      try {
+        request = toJsonRpcRequest(JSON.parse(body));
+      } catch (error) {
+        send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error', data: errorMessage(error) } });
+        return;
+      }
+
+      const id = request.id;
+      try {
+        send({ jsonrpc: '2.0', id, result: this.dispatch(request.method, request.params) });
+      } catch (error) {
+        // RpcErrors carry nearcore-shaped bodies; anything else is a bug in the stand-in
+        send({
+          jsonrpc: '2.0',
+          id,
+          error: error instanceof RpcError
+            ? error.body
+            : { code: -32603, message: 'Internal error', data: errorMessage(error) },
+        });
+      }
+    });
+  }
+
+  private dispatch(method: string | undefined, params: JsonRpcRequest['params']): unknown {
+    switch (method) {
+      case 'status':
+        return this.status();
+      case 'block':
+        return this.blockView(this.findBlock(params));
+      case 'gas_price':
+        return { gas_price: GAS_PRICE.toString() };
+      case 'query':
+        return this.query(namedParams<QueryParams>(params));
+      case 'send_tx':
+        return this.sendTransaction(namedParams<{ signed_tx_base64: string }>(params).signed_tx_base64);
+      case 'broadcast_tx_commit':
+        return this.sendTransaction(
+          Array.isArray(params) ? String(params[0]) : namedParams<{ signed_tx_base64: string }>(params).signed_tx_base64
+        );
+      case 'tx':
+      case 'EXPERIMENTAL_tx_status':
+        return this.txStatus(params, method === 'EXPERIMENTAL_tx_status');
+      default:
+        throw new RpcError({ code: -32601, message: 'Method not found', name: 'REQUEST_VALIDATION_ERROR', data: method });
+    }
+  }
+
+  private status(): Record<string, unknown> {
+    const latest = this.latestBlock;
+    return {
+      chain_id: 'localnet',
+      protocol_version: 73,
+      latest_protocol_version: 73,
+      version: { version: 'stand-in', build: 'stand-in' },
+      rpc_addr: this.server ? this.url : null,
+      validators: [],
+      sync_info: {
+        latest_block_hash: latest.hash,
+        latest_block_height: latest.height,
+        latest_block_time: new Date(Number(latest.timestamp / BigInt(1_000_000))).toISOString(),
+        earliest_block_height: this.blocks[0].height,
+        syncing: false,
+      },
+    };
+  }
+
+  private query(params: QueryParams): Record<string, unknown> {
+    const latest = this.latestBlock;
+    const blockInfo = { block_height: latest.height, block_hash: latest.hash };
+
+    switch (params.request_type) {
+      case 'view_account': {
+        const account = this.getAccount(params.account_id);
+        return {
+          amount: account.balance.toString(),
+          locked: '0',
+          code_hash: account.codeHash,
+          storage_usage: 182,
+          storage_paid_at: 0,
+          ...blockInfo,
+        };
+      }
+      case 'view_access_key': {
+        const nonce = this.getAccessKeyNonce(params.account_id, params.public_key);
+        return { nonce: Number(nonce), permission: 'FullAccess', ...blockInfo };
+      }
+      case 'view_access_key_list': {
+        const account = this.getAccount(params.account_id);
+        return {
+          keys: [...account.keys].map(([publicKey, nonce]) => ({
+            public_key: publicKey,
+            access_key: { nonce: Number(nonce), permission: 'FullAccess' },
+          })),
+          ...blockInfo,
+        };
+      }
+      case 'call_function': {
+        this.getAccount(params.account_id);
+        const args = params.args_base64 ? JSON.parse(Buffer.from(params.args_base64, 'base64').toString() || '{}') : {};
+        const value = this.callView(params.account_id, params.method_name, args);
+        return { result: Array.from(Buffer.from(JSON.stringify(value))), logs: [], ...blockInfo };
+      }
+      default:
+        throw new RpcError({
+          code: -32602,
+          message: 'Invalid params',
+          name: 'REQUEST_VALIDATION_ERROR',
+          data: `Unsupported query request_type: ${params.request_type}`,
+        });
+    }
+  }
+
+  private callView(accountId: string, methodName: string, viewArgs: unknown): unknown {
+    if (accountId !== this.mpcContractId) {
+      throw contractError('CompilationError(CodeDoesNotExist)');
+    }
+    const args: ViewArgs = isRecord(viewArgs) ? viewArgs : {};
+
+    switch (methodName) {
+      case 'public_key':
+        return this.mpc.getRootPublicKey(args.domain_id ?? DOMAIN_SECP256K1);
+      case 'derived_public_key':
+        if (!args.predecessor) {
+          throw contractError('HostError(ProhibitedInView { method_name: "predecessor_account_id" })');
+        }
+        if (typeof args.path !== 'string') {
+          throw contractPanic('Failed to deserialize input from JSON.: missing field `path`');
+        }
+        return this.mpc.derivePublicKey(args.predecessor, args.path, args.domain_id ?? DOMAIN_SECP256K1);
+      case 'state':
+        if (!this.contractState) {
+          throw contractPanic('Contract is not initialized');
+        }
+        return this.contractState;
+      case 'experimental_signature_deposit':
+        if (this.options.signatureDeposit === undefined) {
+          throw contractError('MethodResolveError(MethodNotFound)');
+        }
+        return this.options.signatureDeposit;
+      default:
+        throw contractError('MethodResolveError(MethodNotFound)');
+    }
+  }
+
+  // ─── Transactions ────────────────────────────────────────────────────────
+
+  private sendTransaction(signedTxBase64: string): Record<string, unknown> {
+    const signedTxBytes = Buffer.from(signedTxBase64, 'base64');
+    const signedTx = transactions.SignedTransaction.decode(signedTxBytes) as unknown as {
+      transaction: DecodedTransaction;
+      signature: { ed25519Signature?: { data: number[] } };
+    };
+    const tx = signedTx.transaction;
+    if (!tx.publicKey.ed25519Key || !signedTx.signature.ed25519Signature) {
+      throw invalidTxError('InvalidSignature');
+    }
+    // SignedTransaction = Transaction || signature (1-byte key type + 64 bytes)
+    const txHashBytes = createHash('sha256').update(signedTxBytes.subarray(0, signedTxBytes.length - 65)).digest();
+    const hash = encodeBase58(txHashBytes);
+    const publicKeyBytes = Uint8Array.from(tx.publicKey.ed25519Key.data);
+    const publicKey = 'ed25519:' + encodeBase58(publicKeyBytes);
+    const signature = Uint8Array.from(signedTx.signature.ed25519Signature.data);
+
+    const injected = this.injectedErrors.shift();
+    if (injected) {
+      throw invalidTxError(injected === 'InvalidNonce'
+        ? { InvalidNonce: { tx_nonce: Number(tx.nonce), ak_nonce: Number(tx.nonce) } }
+        : injected);
+    }
+    if (!this.blocks.some((block) => block.hash === encodeBase58(Uint8Array.from(tx.blockHash)))) {
+      throw invalidTxError('InvalidChain');
+    }
+    const akNonce = this.getAccessKeyNonce(tx.signerId, publicKey);
+    if (tx.nonce <= akNonce) {
+      throw invalidTxError({ InvalidNonce: { tx_nonce: Number(tx.nonce), ak_nonce: Number(akNonce) } });
+    }
+    if (!ed25519.verify(signature, txHashBytes, publicKeyBytes)) {
+      throw invalidTxError('InvalidSignature');
+    }
+    this.getAccount(tx.signerId).keys.set(publicKey, tx.nonce);
+
+    const block = this.produceBlock();
+    const stored = this.executeTransaction(tx, publicKey, signature, hash, block);
+    this.transactions.set(hash, stored);
+    return stored.outcome;
+  }
+
+  /**
+   * Execute the first action; only FunctionCall on the contract has effects
+   */
+  private executeTransaction(
+    tx: DecodedTransaction,
+    publicKey: string,
+    signature: Uint8Array,
+    hash: string,
+    block: Block
+  ): StoredTransaction {
+    const receiptId = receiptHash(hash, 0);
+    const action = tx.actions[0];
+    const call = action?.functionCall;
+    const deposit = call?.deposit ?? action?.transfer?.deposit ?? BigInt(0);
+
+    let status: Record<string, unknown> = { SuccessValue: '' };
+    let refund = BigInt(0);
+    if (call && tx.receiverId === this.mpcContractId) {
+      const args = JSON.parse(Buffer.from(call.args).toString() || '{}');
+      this.calls.push({ signerId: tx.signerId, methodName: call.methodName, args, deposit: deposit.toString() });
+      try {
+        const result = this.callContract(tx.signerId, call.methodName, args, deposit);
+        refund = result.refund;
+        status = { SuccessValue: Buffer.from(JSON.stringify(result.value)).toString('base64') };
+      } catch (error) {
+        refund = deposit;
+        status = {
+          Failure: {
+            ActionError: {
+              index: 0,
+              kind: { FunctionCallError: { ExecutionError: `Smart contract panicked: ${(error as Error).message}` } },
+            },
+          },
+        };
+      }
+    }
+
+    const signer = this.getAccount(tx.signerId);
+    const gasBurnt = TX_GAS_BURNT + RECEIPT_GAS_BURNT + (refund > BigInt(0) ? REFUND_GAS_BURNT : BigInt(0));
+    signer.balance -= deposit - refund + gasBurnt * GAS_PRICE;
+
+    const outcome = (id: string, executorId: string, gas: bigint, outcomeStatus: unknown, receiptIds: string[]) => ({
+      id,
+      block_hash: block.hash,
+      proof: [],
+      outcome: {
+        logs: [],
+        receipt_ids: receiptIds,
+        gas_burnt: Number(gas),
+        tokens_burnt: (gas * GAS_PRICE).toString(),
+        executor_id: executorId,
+        status: outcomeStatus,
+        metadata: { version: 3, gas_profile: [] },
+      },
+    });
+
+    const refundId = receiptHash(hash, 1);
+    const receiptsOutcome = [
+      outcome(receiptId, tx.receiverId, RECEIPT_GAS_BURNT, status, refund > BigInt(0) ? [refundId] : []),
+    ];
+    const receipts: Record<string, unknown>[] = [
+      receiptDetail(receiptId, tx.signerId, tx.receiverId, tx.signerId, [{ FunctionCall: { deposit: deposit.toString() } }]),
+    ];
+    if (refund > BigInt(0)) {
+      // A failed call refunds from `system`; the contract itself returns a deposit surplus
+      const refundFrom = 'Failure' in status ? 'system' : tx.receiverId;
+      receiptsOutcome.push(outcome(refundId, tx.signerId, REFUND_GAS_BURNT, { SuccessValue: '' }, []));
+      receipts.push(receiptDetail(refundId, refundFrom, tx.signerId, tx.receiverId, [
+        { Transfer: { deposit: refund.toString() } },
+      ]));
+    }
+
+    return {
+      outcome: {
+        final_execution_status: 'FINAL',
+        status,
+        transaction: {
+          signer_id: tx.signerId,
+          public_key: publicKey,
+          nonce: Number(tx.nonce),
+          receiver_id: tx.receiverId,
+          actions: call
+            ? [{ FunctionCall: { method_name: call.methodName, args: Buffer.from(call.args).toString('base64'), gas: Number(call.gas), deposit: deposit.toString() } }]
+            : [],
+          signature: 'ed25519:' + encodeBase58(signature),
+          hash,
+        },
+        transaction_outcome: outcome(hash, tx.signerId, TX_GAS_BURNT, { SuccessReceiptId: receiptId }, [receiptId]),
+        receipts_outcome: receiptsOutcome,
+      },
+      receipts,
+    };
+  }
+
+  /**
+   * Contract change methods; errors become a FunctionCallError panic
+   */
+  private callContract(
+    predecessor: string,
+    methodName: string,
+    args: unknown,
+    deposit: bigint
+  ): { value: unknown; refund: bigint } {
+    switch (methodName) {
+      case 'sign':
+        return this.sign(predecessor, toSignRequest(args), deposit);
+      case 'init': {
+        if (this.contractState) {
+          throw new Error('Contract has already been initialized');
+        }
+        const { parameters } = (isRecord(args) ? args : {}) as InitArgs;
+        this.setParticipants(
+          (parameters?.participants?.participants || []).map(([accountId, index, info]) => ({
+            accountId,
+            index,
+            signPk: info.sign_pk,
+            url: info.url,
+          })),
+          parameters?.threshold
+        );
+        return { value: null, refund: deposit };
+      }
+      case 'vote_add_domains':
+        if (!this.contractState) {
+          throw new Error('Protocol state is not running');
+        }
+        return { value: null, refund: deposit };
+      default:
+        throw new Error(`Method ${methodName} is not supported by the stand-in contract`);
+    }
+  }
+
+  private sign(predecessor: string, request: SignRequest, deposit: bigint): { value: unknown; refund: bigint } {
+    if (!this.contractState) {
+      throw new Error('Protocol state is not running');
+    }
+    const required = BigInt(this.options.signatureDeposit ?? 1);
+    if (deposit < required) {
+      throw new Error(`Attached deposit is lower than required. Attached: ${deposit}, Required: ${required}`);
+    }
+
+    const domainId = request.domain_id ?? DOMAIN_SECP256K1;
+    let payload: Uint8Array;
+    if (request.payload_v2?.Eddsa !== undefined) {
+      payload = decodeHexPayload(request.payload_v2.Eddsa, 'Eddsa');
+    } else if (request.payload_v2?.Ecdsa !== undefined) {
+      payload = decodeHexPayload(request.payload_v2.Ecdsa, 'Ecdsa');
+    } else {
+      payload = Uint8Array.from(request.payload || []);
+    }
+    if (domainId === DOMAIN_ED25519 ? payload.length < 32 || payload.length > 1232 : payload.length !== 32) {
+      throw new Error(`Invalid payload length ${payload.length} for domain ${domainId}`);
+    }
+
+    const signature = this.mpc.signWithDerivedKey(predecessor, request.path, domainId, payload);
+    // Only contracts with a deposit view compute a deposit, and they refund the surplus
+    const refund = this.options.signatureDeposit !== undefined ? deposit - required : BigInt(0);
+    return { value: toContractSignature(signature), refund };
+  }
+
+  private txStatus(params: JsonRpcRequest['params'], withReceipts: boolean): Record<string, unknown> {
+    const hash = Array.isArray(params) ? String(params[0]) : namedParams<{ tx_hash: string }>(params).tx_hash;
+    const stored = this.transactions.get(hash);
+    if (!stored) {
+      throw new RpcError({
+        code: -32000,
+        message: 'Server error',
+        name: 'HANDLER_ERROR',
+        cause: { name: 'UNKNOWN_TRANSACTION', info: { requested_transaction_hash: hash } },
+        data: `Transaction ${hash} doesn't exist`,
+      });
+    }
+    return withReceipts ? { ...stored.outcome, receipts: stored.receipts } : stored.outcome;
+  }
+
+  // ─── State helpers ───────────────────────────────────────────────────────
+
+  private getAccount(accountId: string): StandInAccount {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new RpcError({
+        code: -32000,
+        message: 'Server error',
+        name: 'HANDLER_ERROR',
+        cause: { name: 'UNKNOWN_ACCOUNT', info: { requested_account_id: accountId } },
+        data: `account ${accountId} does not exist while viewing`,
+      });
+    }
+    return account;
+  }
+
+  private getAccessKeyNonce(accountId: string, publicKey: string): bigint {
+    const account = this.getAccount(accountId);
+    if (account.keys.size > 0 && !account.keys.has(publicKey)) {
+      throw new RpcError({
+        code: -32000,
+        message: 'Server error',
+        name: 'HANDLER_ERROR',
+        cause: { name: 'UNKNOWN_ACCESS_KEY', info: { public_key: publicKey } },
+        data: `access key ${publicKey} does not exist while viewing`,
+      });
+    }
+    return account.keys.get(publicKey) ?? BigInt(0);
+  }
+
+  private get latestBlock(): Block {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  private produceBlock(): Block {
+    const prevHash = this.blocks.length > 0 ? this.latestBlock.hash : EMPTY_CODE_HASH;
+    const height = this.blocks.length > 0 ? this.latestBlock.height + 1 : 1;
+    const block: Block = {
+      height,
+      hash: encodeBase58(createHash('sha256').update(`stand-in block ${height}`).digest()),
+      prevHash,
+      timestamp: BigInt(Date.now()) * BigInt(1_000_000),
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private findBlock(params: JsonRpcRequest['params']): Block {
+    const blockId = Array.isArray(params) ? params[0] : params?.block_id;
+    if (blockId === undefined || blockId === null) {
+      return this.latestBlock;
+    }
+    const block = this.blocks.find((b) => b.height === blockId || b.hash === blockId);
+    if (!block) {
+      throw new RpcError({
+        code: -32000,
+        message: 'Server error',
+        name: 'HANDLER_ERROR',
+        cause: { name: 'UNKNOWN_BLOCK', info: {} },
+        data: `DB Not Found Error: BLOCK: ${blockId}`,
+      });
+    }
+    return block;
+  }
+
+  private blockView(block: Block): Record<string, unknown> {
+    return {
+      author: 'test.near',
+      header: {
+        height: block.height,
+        hash: block.hash,
+        prev_hash: block.prevHash,
+        timestamp: Number(block.timestamp),
+        timestamp_nanosec: block.timestamp.toString(),
+        epoch_id: EMPTY_CODE_HASH,
+        next_epoch_id: EMPTY_CODE_HASH,
+        gas_price: GAS_PRICE.toString(),
+        chunks_included: 1,
+      },
+      chunks: [],
+    };
+  }
+}
+
+/**
+ * Signature in the contract's return shape (what NearClient parses)
+ */
+function toContractSignature(signature: Signature): unknown {
+  if (signature.scheme === 'ed25519') {
+    return { scheme: 'Ed25519', signature: Array.from(Buffer.from(signature.signature, 'hex')) };
+  }
+  return {
+    scheme: 'Secp256k1',
+    big_r: { affine_point: signature.big_r.toUpperCase() },
+    s: { scalar: signature.s.toUpperCase() },
+    recovery_id: signature.recovery_id,
+  };
+}
+
+function receiptDetail(
+  receiptId: string,
+  predecessorId: string,
+  receiverId: string,
+  signerId: string,
+  actions: unknown[]
+): Record<string, unknown> {
+  return {
+    predecessor_id: predecessorId,
+    receiver_id: receiverId,
+    receipt_id: receiptId,
+    receipt: {
+      Action: {
+        actions,
+        gas_price: GAS_PRICE.toString(),
+        input_data_ids: [],
+        output_data_receivers: [],
+        signer_id: signerId,
+        signer_public_key: '',
+      },
+    },
+  };
+}
+
+function receiptHash(txHash: string, index: number): string {
+  return encodeBase58(createHash('sha256').update(Buffer.concat([decodeBase58(txHash), Buffer.from([index])])).digest());
+}
+
+function contractError(vmError: string): RpcError {
+  return new RpcError({
+    code: -32000,
+    message: 'Server error',
+    name: 'HANDLER_ERROR',
+    cause: { name: 'CONTRACT_EXECUTION_ERROR', info: { vm_error: vmError } },
+    data: `wasm execution failed with error: FunctionCallError(${vmError})`,
+  });
+}
+
+function contractPanic(message: string): RpcError {
+  return contractError(`ExecutionError("Smart contract panicked: ${message}")`);
+}
+
+function invalidTxError(error: unknown): RpcError {
+  return new RpcError({
+    code: -32000,
+    message: 'Server error',
+    name: 'HANDLER_ERROR',
+    cause: { name: 'INVALID_TRANSACTION', info: {} },
+    data: { TxExecutionError: { InvalidTxError: error } },
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toJsonRpcRequest(value: unknown): JsonRpcRequest {
+  if (!isRecord(value)) {
+    return { id: null };
+  }
+  return {
+    id: typeof value.id === 'string' || typeof value.id === 'number' ? value.id : null,
+    method: typeof value.method === 'string' ? value.method : undefined,
+    params: isRecord(value.params) || Array.isArray(value.params) ? value.params : undefined,
+  };
+}
+
+/**
+ * Named params of a method; positional or missing params are invalid
+ */
+function namedParams<T>(params: JsonRpcRequest['params']): T {
+  if (!isRecord(params)) {
+    throw new RpcError({
+      code: -32602,
+      message: 'Invalid params',
+      name: 'REQUEST_VALIDATION_ERROR',
+      data: 'Expected named params',
+    });
+  }
+  return params as T;
+}
+
+/**
+ * Narrow `sign` call arguments to { request: SignRequest }; errors become contract panics
+ */
+function toSignRequest(args: unknown): SignRequest {
+  const request = isRecord(args) ? args.request : undefined;
+  if (!isRecord(request) || typeof request.path !== 'string') {
+    throw new Error('Failed to deserialize input from JSON.: missing field `request.path`');
+  }
+  const { domain_id: domainId, payload_v2: payloadV2, payload } = request;
+  if (domainId !== undefined && typeof domainId !== 'number') {
+    throw new Error('Failed to deserialize input from JSON.: invalid type for `domain_id`');
+  }
+  if (payloadV2 !== undefined && !isRecord(payloadV2)) {
+    throw new Error('Failed to deserialize input from JSON.: invalid type for `payload_v2`');
+  }
+  if (payload !== undefined && !(Array.isArray(payload) && payload.every((byte) => Number.isInteger(byte)))) {
+    throw new Error('Failed to deserialize input from JSON.: invalid type for `payload`');
+  }
+  return { path: request.path, domain_id: domainId, payload_v2: payloadV2, payload };
+}
+
+/**
+ * Decode a payload_v2 hex string, rejecting anything Buffer.from would silently truncate
+ */
+function decodeHexPayload(value: unknown, variant: 'Ecdsa' | 'Eddsa'): Uint8Array {
+  if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error(`Invalid payload_v2.${variant}: expected an even-length hex string`);
+  }
+  return Buffer.from(value, 'hex');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
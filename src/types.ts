@@ -3,20 +3,138 @@
  * Matches production Chain Signatures surface
  */
 
-export type SupportedChain =
+/**
+ * Chains with a built-in adapter in the chain registry
+ */
+export type BuiltInChain =
   | 'bitcoin'
   | 'ethereum'
   | 'dogecoin'
   | 'ripple'
   | 'polygon'
   | 'arbitrum'
-  | 'optimism';
+  | 'optimism'
+  | 'solana'
+  | 'near'
+  | 'cosmoshub'
+  | 'osmosis'
+  | 'injective'
+  | 'evmos'
+  | 'tron'
+  | 'litecoin'
+  | 'bitcoincash';
+
+/**
+ * Any chain with a registered ChainAdapter.
+ * Built-in names autocomplete; consumers may add more via registerChain().
+ */
+export type SupportedChain = BuiltInChain | (string & {});
+
+/**
+ * Destination chain network an address is encoded for.
+ * Selects HRP / version bytes for UTXO chains; EVM addresses are network-independent.
+ */
+export type ChainNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+/**
+ * Bitcoin script type for an address derived from the same MPC key
+ * - p2pkh: legacy (1... / m,n...)
+ * - p2sh-p2wpkh: nested SegWit (3... / 2...)
+ * - p2wpkh: native SegWit v0 (bc1q...)
+ * - p2tr: Taproot key-path only, BIP-86 tweak (bc1p...)
+ */
+export type BitcoinAddressType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+export interface DeriveAddressOptions {
+  /** Defaults to LocalnetConfig.network, then 'mainnet' */
+  network?: ChainNetwork;
+  /** Bitcoin only. Defaults to 'p2wpkh' */
+  addressType?: BitcoinAddressType;
+  /** Cosmos-family only. Bech32 human-readable prefix; defaults to the chain adapter's HRP */
+  hrp?: string;
+}
 
 export interface DerivedAddress {
   chain: SupportedChain;
   address: string;
   publicKey: string;
   derivationPath: string;
+  network: ChainNetwork;
+  /** Bitcoin script type the address was encoded with */
+  addressType?: BitcoinAddressType;
+  /** Hex-encoded scriptPubKey locking funds to this address (bitcoin only) */
+  scriptPubKey?: string;
+  /** XRPL X-address form (ripple only; classic address is in `address`) */
+  xAddress?: string;
+  /** Bech32 human-readable prefix the address was encoded with (Cosmos-family only) */
+  hrp?: string;
+}
+
+/**
+ * Options passed to a ChainAdapter's address encoder
+ */
+export interface AddressEncodingOptions {
+  network: ChainNetwork;
+  /** Only set when the caller asked for a specific address type */
+  addressType?: BitcoinAddressType;
+  /** Only set when the caller supplied a bech32 HRP */
+  hrp?: string;
+}
+
+/**
+ * Chain-specific part of a DerivedAddress produced by a ChainAdapter
+ */
+export type EncodedAddress = Pick<DerivedAddress, 'address'> &
+  Partial<Pick<DerivedAddress, 'addressType' | 'scriptPubKey' | 'xAddress' | 'hrp'>>;
+
+/**
+ * ChainAdapter - everything the simulator needs to know about a destination chain
+ * 
+ * Built-in chains are registered adapters; consumers add chains with registerChain()
+ * instead of editing SupportedChain and the simulator/MPC service switch statements.
+ */
+export interface ChainAdapter {
+  chain: SupportedChain;
+  /** MPC domain the key is derived and signed in (DOMAIN_SECP256K1 / DOMAIN_ED25519) */
+  domainId: number;
+  /** Address types accepted by encodeAddress (omit if the chain has a single type) */
+  addressTypes?: BitcoinAddressType[];
+  /** Default bech32 HRP; chains that declare one accept a caller-supplied HRP */
+  hrp?: string;
+  /** EVM chain ID per network; set on every EVM adapter (marks the chain as EVM) */
+  chainIds?: Partial<Record<ChainNetwork, number>>;
+  /** Convert an MPC-derived public key ("secp256k1:..." / "ed25519:...") to an address */
+  encodeAddress(publicKey: string, options: AddressEncodingOptions): EncodedAddress;
+  /** Bytes sent to the contract's sign method (32-byte prehash for ECDSA, raw message for EdDSA) */
+  hashPayload(payload: string): Uint8Array;
+  /** Serialize an MPC signature in the chain's native format */
+  formatSignature(signature: Signature): string;
+  /** Structured serializations (EVM r/s/v, DER + sighash byte, compact) for ECDSA chains */
+  formatSignatures?(signature: Signature): FormattedSignatures;
+  /** Produce a chain-shaped transaction id from a correlation seed */
+  formatTxHash(seed: string): string;
+}
+
+/**
+ * How SignatureRequest.payload is decoded to bytes
+ * - prehashed-hex: an existing 32-byte digest (hash must be 'none')
+ * - hex / utf8 / base64: message bytes in that encoding
+ */
+export type PayloadEncoding = 'prehashed-hex' | 'hex' | 'utf8' | 'base64';
+
+/**
+ * Hash applied to the decoded payload before signing
+ * ECDSA chains need a 32-byte result; EdDSA chains sign the raw message ('none')
+ */
+export type PayloadHash = 'none' | 'sha256' | 'keccak256' | 'double-sha256';
+
+/**
+ * Explicit payload format; when both fields are omitted the chain adapter's
+ * hashPayload rule is used
+ */
+export interface PayloadFormat {
+  encoding?: PayloadEncoding;
+  hash?: PayloadHash;
 }
 
 export interface SignatureRequest {
@@ -24,18 +142,212 @@ export interface SignatureRequest {
   chain: SupportedChain;
   payload: string;
   derivationPath?: string;
+  encoding?: PayloadEncoding;
+  hash?: PayloadHash;
 }
 
-export interface Signature {
+/**
+ * ECDSA (secp256k1) signature as produced by the MPC network
+ */
+export interface Secp256k1Signature {
+  scheme?: 'secp256k1';
   big_r: string;
   s: string;
   recovery_id?: number;
 }
 
+/**
+ * EdDSA (ed25519) signature for chains derived through DOMAIN_ED25519 (solana, near)
+ */
+export interface Ed25519Signature {
+  scheme: 'ed25519';
+  /** Hex-encoded 64-byte signature (R || S) */
+  signature: string;
+}
+
+export type Signature = Secp256k1Signature | Ed25519Signature;
+
+/**
+ * EVM signature components, low-S normalized
+ * v is 27/28, or the EIP-155 value (chainId * 2 + 35 + yParity) when a chainId is given
+ */
+export interface EvmSignatureParts {
+  r: string;
+  s: string;
+  v: number;
+  yParity: 0 | 1;
+  /** 65-byte r || s || v hex (v as 27/28), 0x-prefixed */
+  serialized: string;
+}
+
+/**
+ * Strict DER signature (low-S) with the sighash type byte appended for script inputs
+ */
+export interface DerSignature {
+  der: string;
+  sighashType: number;
+  /** der || sighashType, as pushed in scriptSig / witness */
+  serialized: string;
+}
+
+/**
+ * Signature serializations a chain adapter offers alongside formattedSignature
+ */
+export interface FormattedSignatures {
+  evm?: EvmSignatureParts;
+  der?: DerSignature;
+  /** 64-byte r || s hex (low-S) */
+  compact?: string;
+}
+
+/**
+ * NEAR-side cost of a sign call (amounts in yoctoNEAR, gas in gas units, as decimal strings)
+ */
+export interface SignRequestCost {
+  /** Deposit attached to `sign` */
+  deposit: string;
+  /** 'contract': from experimental_signature_deposit; 'fallback': LocalnetConfig.signDepositFallback */
+  depositSource: 'contract' | 'fallback';
+  /** Deposit surplus the contract transferred back (unset if the receipts could not be fetched) */
+  refund?: string;
+  /** Gas burnt by the transaction and all its receipts */
+  gasBurnt: string;
+  /** Tokens burnt for that gas */
+  tokensBurnt: string;
+}
+
 export interface SignatureResponse {
   signature: Signature;
+  /** Chain the payload was signed for (selects the payload hashing rule on verification) */
+  chain?: SupportedChain;
+  /** Signature serialized by the chain adapter (e.g. 65-byte r||s||v for EVM, DER for bitcoin) */
+  formattedSignature?: string;
+  /** Structured serializations from the chain adapter (secp256k1 chains only) */
+  formatted?: FormattedSignatures;
   publicKey: string;
   signedPayload: string;
+  /** Payload format the request was signed with (unset: chain adapter rule) */
+  encoding?: PayloadEncoding;
+  hash?: PayloadHash;
+  /** Deposit, refund and gas of the contract sign call */
+  cost?: SignRequestCost;
+  /** MPC nodes that took part in signing (simulated threshold cluster only) */
+  participants?: string[];
+}
+
+/**
+ * Unsigned EVM transaction fields for signEvmTransaction
+ * Set gasPrice for a legacy (type 0) tx, or maxFeePerGas / maxPriorityFeePerGas for EIP-1559 (type 2).
+ * chainId defaults to the chain adapter's chain ID for the network.
+ */
+export interface EvmTransactionRequest {
+  to?: string;
+  nonce: number;
+  gasLimit: bigint | number | string;
+  value?: bigint | number | string;
+  data?: string;
+  chainId?: number;
+  type?: 0 | 2;
+  gasPrice?: bigint | number | string;
+  maxFeePerGas?: bigint | number | string;
+  maxPriorityFeePerGas?: bigint | number | string;
+  accessList?: Array<{ address: string; storageKeys: string[] }>;
+}
+
+export interface SignEvmTransactionOptions {
+  /** Network used to look up the chain ID (default: the simulator's default network) */
+  network?: ChainNetwork;
+  derivationPath?: string;
+}
+
+/**
+ * Signed EVM transaction ready for eth_sendRawTransaction
+ */
+export interface SignedEvmTransaction {
+  /** 0x-prefixed signed serialization */
+  rawTransaction: string;
+  /** Transaction hash (keccak256 of rawTransaction) */
+  hash: string;
+  /** Sender address recovered from the signature (the derived address) */
+  from: string;
+  chainId: number;
+  type: 0 | 2;
+  signature: Signature;
+}
+
+export interface SignEvmMessageOptions {
+  /** EVM chain whose derived account signs (default: ethereum) */
+  chain?: SupportedChain;
+  derivationPath?: string;
+}
+
+/**
+ * EIP-191 / EIP-712 signature that ethers verifyMessage / verifyTypedData recover to `address`
+ */
+export interface SignedEvmMessage {
+  /** 65-byte r || s || v hex (v = 27/28), 0x-prefixed */
+  signature: string;
+  /** The signed 32-byte digest */
+  digest: string;
+  /** Derived EVM address of the signer */
+  address: string;
+  mpcSignature: Signature;
+}
+
+/**
+ * External BIP340 Schnorr signer for Taproot key-path inputs
+ *
+ * Must sign the BIP341 sighash with the derived key, BIP86-tweaked so that the x-only
+ * public key is outputKey, and return the 64-byte signature.
+ */
+export type TaprootSigner = (request: {
+  index: number;
+  sighash: Uint8Array;
+  sighashType: number;
+  outputKey: Uint8Array;
+}) => Promise<Uint8Array>;
+
+export interface SignBitcoinPsbtOptions {
+  derivationPath?: string;
+  /** Signs P2TR inputs (the MPC secp256k1 domain produces ECDSA signatures only) */
+  taprootSigner?: TaprootSigner;
+}
+
+/**
+ * Finalized Bitcoin transaction built from a PSBT, ready for sendrawtransaction
+ */
+export interface SignedBitcoinTransaction {
+  /** Signed network serialization (hex, BIP144 segwit encoding) */
+  rawTransaction: string;
+  txid: string;
+  /**
+   * Per-input sighash (hex) and signature, in input order:
+   * - p2wpkh: BIP143 sighash and MPC signature
+   * - p2tr: BIP341 sighash and the external signer's Schnorr signature (hex)
+   */
+  inputs: Array<{
+    scriptType: 'p2wpkh' | 'p2tr';
+    sighash: string;
+    signature?: Signature;
+    schnorrSignature?: string;
+  }>;
+}
+
+/**
+ * Outcome of cryptographic signature verification
+ * - valid: the signature verifies under the expected public key
+ * - malformed: signature, payload or public key cannot be parsed / is out of range
+ * - wrong_signer: well-formed, but does not verify under the expected public key
+ */
+export type SignatureVerificationStatus = 'valid' | 'malformed' | 'wrong_signer';
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  status: SignatureVerificationStatus;
+  /** Why verification failed (unset when valid) */
+  reason?: string;
+  /** Public key recovered from a secp256k1 signature, in contract format */
+  recoveredPublicKey?: string;
 }
 
 /**
@@ -54,7 +366,8 @@ export interface IChainSignatures {
   deriveAddress(
     nearAccount: string,
     chain: SupportedChain,
-    path?: string
+    path?: string,
+    options?: DeriveAddressOptions
   ): Promise<DerivedAddress>;
   requestSignature(request: SignatureRequest): Promise<SignatureResponse>;
   verifySignature(response: SignatureResponse, payload: string): Promise<boolean>;